@@ -1,33 +1,157 @@
 
-import React, { useState, useRef, Suspense } from 'react';
+import React, { useState, useRef, useMemo, useEffect, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { DEFAULT_PARAMS, HandData } from './types';
+import { DEFAULT_PARAMS, HandData, SurfaceMode, createIdleHandData } from './types';
 import { FluidScene } from './components/FluidScene';
-import { WebcamHandler } from './components/WebcamHandler';
+import { HandInputHandler } from './components/HandInputHandler';
+import { InputSourcePicker } from './components/InputSourcePicker';
+import { SessionControls } from './components/SessionControls';
 import { AudioManager } from './components/AudioManager';
-import { Loader2, AlertTriangle } from 'lucide-react';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { CameraControls } from './components/CameraControls';
+import { ParallaxControls } from './components/ParallaxControls';
+import { EffectTargetPicker } from './components/EffectTargetPicker';
+import { SurfaceModePicker } from './components/SurfaceModePicker';
+import { QualityIndicator } from './components/QualityIndicator';
+import { PostProcessingPanel } from './components/PostProcessingPanel';
+import { MaterialPicker } from './components/MaterialPicker';
+import { BackdropPicker } from './components/BackdropPicker';
+import { CaptureControls } from './components/CaptureControls';
+import { HandInputKind, RawHandFrame } from './services/HandInputSource';
+import { HandInputConfig, createHandInputSource, readHandCountFromUrl, readInputConfigFromUrl } from './services/createHandInputSource';
+import { SessionRecorder } from './services/SessionRecorder';
+import { SessionPlayer } from './services/SessionPlayer';
+import { GestureEventBus } from './services/GestureEvents';
+import { BimanualGestureDetector } from './services/BimanualGestures';
+import { CalibrationProfile, loadActiveProfile, profileToProcessing } from './services/calibration';
+import { LandmarkerInfo } from './services/mediapipeAssets';
+import { CameraSettings, loadCameraSettings, saveCameraSettings } from './services/cameraSettings';
+import { HeadParallax } from './services/HeadTracking';
+import { PersonMask, SegmentationMode } from './services/PersonSegmentation';
+import { QUALITY_LEVELS, QualityGovernor, readTargetFpsFromUrl } from './services/QualityGovernor';
+import { PostProcessingChain } from './services/PostProcessing';
+import { MaterialId, applyMaterialParams, nextMaterialId, readMaterialFromUrl } from './services/MaterialPresets';
+import { BackdropConfig, readBackdropFromUrl } from './services/BackdropSource';
+import { CanvasCapture, readClipLimitFromUrl } from './services/CanvasCapture';
+import { Loader2, AlertTriangle, Ruler } from 'lucide-react';
+
+// What to try when an input source fails to start, per source
+const INPUT_ERROR_HELP: Record<HandInputKind, string> = {
+  'webcam': 'This application requires camera access to track your hand gestures. Please check your browser permissions icon in the address bar and allow camera access.',
+  'video-file': 'The video could not be played or tracked. Check that it is a format your browser can play, or choose another file.',
+  'synthetic': 'The synthetic hands could not be started. Reload the page to try again.',
+};
 
 const App: React.FC = () => {
-  // Removed setParams as there are no longer controls to change them
-  const [params] = useState(DEFAULT_PARAMS);
+  // Material presets own the look and feel; parallax strength is the only free slider
+  const [materialId, setMaterialId] = useState<MaterialId>(() => readMaterialFromUrl());
+  const [params, setParams] = useState(() => applyMaterialParams(DEFAULT_PARAMS, materialId));
+  const [backdrop, setBackdrop] = useState<BackdropConfig>(() => readBackdropFromUrl());
+  // Analytic ripples, the stable-fluids simulation (?surface=fluid) or the membrane (?surface=membrane)
+  const [surfaceMode, setSurfaceMode] = useState<SurfaceMode>(() => {
+    const surface = new URLSearchParams(window.location.search).get('surface');
+    return surface === 'fluid' || surface === 'membrane' ? surface : 'ripple';
+  });
   
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // Initialize with two inactive hands
-  const handDataRef = useRef<HandData>([
-    { 
-      gesture: 'NONE', 
-      x: 0.5, y: 0.5, z: 0, 
-      indexTip: { x: 0.5, y: 0.5, vx: 0, vy: 0 } 
-    },
-    { 
-      gesture: 'NONE', 
-      x: 0.5, y: 0.5, z: 0,
-      indexTip: { x: 0.5, y: 0.5, vx: 0, vy: 0 }
-    }
-  ]);
+  // How many hands are tracked at once (one slot each)
+  const [handCount, setHandCount] = useState(() => readHandCountFromUrl());
+
+  // Initialize with every hand slot inactive
+  const handDataRef = useRef<HandData>(createIdleHandData(handCount));
+  // The newest live detection as the landmarker produced it, for calibration sampling
+  const detectionRef = useRef<RawHandFrame | null>(null);
+
+  // Where hand data comes from: camera, a video file, or scripted motion
+  const [inputConfig, setInputConfig] = useState<HandInputConfig>(() => readInputConfigFromUrl());
+  const inputSource = useMemo(() => createHandInputSource(inputConfig, handCount), [inputConfig, handCount]);
+  // Camera device, resolution, frame rate and mirroring, persisted in localStorage
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(() => loadCameraSettings());
+  const updateCameraSettings = (settings: CameraSettings) => {
+    setCameraSettings(settings);
+    saveCameraSettings(settings);
+  };
+  // Which delegate / model the landmarker actually started with
+  const [detectorInfo, setDetectorInfo] = useState<LandmarkerInfo | null>(null);
+
+  // Per-user pinch threshold and depth range, persisted in localStorage
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(() => loadActiveProfile());
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  useEffect(() => {
+    inputSource.configure?.(profileToProcessing(calibration));
+  }, [inputSource, calibration]);
+
+  // Head-tracked parallax: the face pass only runs while this is on
+  const headParallax = useMemo(() => new HeadParallax(), []);
+  const [isParallaxEnabled, setIsParallaxEnabled] = useState(false);
+  useEffect(() => {
+    headParallax.reset();
+    if (!inputSource.trackHead) return;
+    inputSource.trackHead(isParallaxEnabled ? (pose, timestamp) => headParallax.update(pose, timestamp) : null);
+  }, [inputSource, isParallaxEnabled, headParallax]);
+
+  // Effect target: the segmentation pass only runs while the effects are restricted
+  const personMask = useMemo(() => new PersonMask(), []);
+  const [segmentationMode, setSegmentationMode] = useState<SegmentationMode>('everywhere');
+  const isSegmenting = segmentationMode !== 'everywhere';
+  useEffect(() => {
+    personMask.reset();
+    if (!inputSource.segmentPerson) return;
+    inputSource.segmentPerson(isSegmenting ? (mask) => personMask.update(mask) : null);
+  }, [inputSource, isSegmenting, personMask]);
+
+  // Scales DPR, smear resolution and blur taps to hold the target frame rate (?targetFps=)
+  const quality = useMemo(() => new QualityGovernor({ targetFps: readTargetFpsFromUrl() }), []);
+  const [qualityLevelIndex, setQualityLevelIndex] = useState(() => quality.getState().level);
+  useEffect(() => quality.subscribe(state => setQualityLevelIndex(state.level)), [quality]);
+  const qualityLevel = QUALITY_LEVELS[qualityLevelIndex];
+
+  // Ordered passes over the composite (caustics, bloom, grade, vignette, grain)
+  const postProcessing = useMemo(() => new PostProcessingChain(), []);
+  const capture = useMemo(() => new CanvasCapture(readClipLimitFromUrl()), []);
+
+  // Gesture start/end/change events, derived from whichever frames reach the scene
+  const gestureEvents = useMemo(() => new GestureEventBus(), []);
+  // Two-hand pinch transform, clap and pull-apart tension
+  const bimanual = useMemo(() => new BimanualGestureDetector(), []);
+  const applyHandData = (data: HandData) => {
+    handDataRef.current = data;
+    gestureEvents.update(data);
+    bimanual.update(data);
+  };
+
+  // The scene animates the switch; params jump straight to the preset's values
+  const selectMaterial = (id: MaterialId) => {
+    setMaterialId(id);
+    setParams(prev => applyMaterialParams(prev, id));
+  };
+  // A shaka (thumb and pinky out) cycles to the next material
+  const materialIdRef = useRef(materialId);
+  materialIdRef.current = materialId;
+  useEffect(() => gestureEvents.on('gestureStart', (e) => {
+    if (e.gesture === 'SHAKA') selectMaterial(nextMaterialId(materialIdRef.current));
+  }), [gestureEvents]);
+
+  // Session capture & replay. While a session is loaded it owns handDataRef
+  // and live frames are only recorded, never applied.
+  const recorder = useMemo(() => new SessionRecorder(), []);
+  const player = useMemo(() => new SessionPlayer((data) => applyHandData(data)), []);
+  useEffect(() => () => player.unload(), [player]);
+
+  const selectInput = (config: HandInputConfig, count = handCount) => {
+    setVideoElement(null);
+    setError(null);
+    setIsLoading(true);
+    setDetectorInfo(null);
+    handDataRef.current = createIdleHandData(count);
+    gestureEvents.reset();
+    bimanual.reset();
+    setInputConfig(config);
+    setHandCount(count);
+  };
 
   if (error) {
     return (
@@ -40,15 +164,16 @@ const App: React.FC = () => {
              <AlertTriangle className="w-8 h-8 text-red-500" />
            </div>
            
-           <h2 className="text-xl font-bold text-white mb-2 tracking-tight">Camera Access Denied</h2>
+           <h2 className="text-xl font-bold text-white mb-2 tracking-tight">
+             {inputConfig.kind === 'webcam' ? 'Camera Access Denied' : 'Input Unavailable'}
+           </h2>
            
            <div className="bg-black/40 rounded-lg p-4 mb-6 border border-white/5">
              <p className="text-red-200/80 text-sm font-mono">{error}</p>
            </div>
            
            <p className="text-zinc-400 text-sm leading-relaxed mb-6">
-             This application requires camera access to track your hand gestures. 
-             Please check your browser permissions icon in the address bar and allow camera access.
+             {INPUT_ERROR_HELP[inputConfig.kind]}
            </p>
 
            <button 
@@ -57,6 +182,11 @@ const App: React.FC = () => {
            >
              Reload Page
            </button>
+
+           <p className="text-zinc-500 text-xs mt-6 mb-3">{inputConfig.kind === 'webcam' ? 'No camera? Drive the scene from another source:' : 'Or drive the scene from another source:'}</p>
+           <div className="flex justify-center">
+             <InputSourcePicker activeKind={inputConfig.kind} onSelect={selectInput} />
+           </div>
         </div>
       </div>
     );
@@ -66,17 +196,29 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen bg-black overflow-hidden">
       
       {/* Audio Engine (Headless) */}
-      <AudioManager handDataRef={handDataRef} />
+      <AudioManager handDataRef={handDataRef} gestureEvents={gestureEvents} bimanual={bimanual} mirror={cameraSettings.mirror} capture={capture} />
 
       {/* 3D Scene Layer */}
       <div className="absolute inset-0 z-10">
         {videoElement && (
-          <Canvas dpr={[1, 2]} gl={{ antialias: false, alpha: false }}>
+          <Canvas dpr={Math.min(qualityLevel.dpr, window.devicePixelRatio || 1)} gl={{ antialias: false, alpha: false }}>
             <Suspense fallback={null}>
               <FluidScene 
                 video={videoElement} 
                 params={params} 
                 handDataRef={handDataRef} 
+                gestureEvents={gestureEvents}
+                bimanual={bimanual}
+                mirror={cameraSettings.mirror}
+                headParallax={headParallax}
+                personMask={personMask}
+                segmentationMode={segmentationMode}
+                surfaceMode={surfaceMode}
+                materialId={materialId}
+                backdrop={backdrop}
+                quality={quality}
+                postProcessing={postProcessing}
+                capture={capture}
               />
             </Suspense>
           </Canvas>
@@ -84,18 +226,23 @@ const App: React.FC = () => {
       </div>
 
       {/* Logic Layer */}
-      <WebcamHandler 
+      <HandInputHandler 
+        source={inputSource}
         onVideoReady={(video) => {
           setVideoElement(video);
           setIsLoading(false);
         }}
-        onHandUpdate={(data) => {
-          handDataRef.current = data;
+        onHandUpdate={(data, raw) => {
+          recorder.capture(data, raw);
+          if (player.isLoaded) return;
+          applyHandData(data);
+          if (raw) detectionRef.current = raw;
         }}
+        onDetectorReady={setDetectorInfo}
         onError={(err) => {
           console.error(err);
           setIsLoading(false);
-          setError(err.message || "Failed to access camera");
+          setError(err.message || "Failed to start hand input");
         }}
       />
 
@@ -117,10 +264,69 @@ const App: React.FC = () => {
             <div className="text-xs text-white/60 mt-2 max-w-[200px] space-y-1">
                 <p><span className="text-cyan-400 font-bold">MODE 1:</span> 五指张开 (Palm)</p>
                 <p><span className="text-purple-400 font-bold">MODE 2:</span> 捏合拖拽 (Pinch)</p>
-                <p><span className="text-yellow-400 font-bold">MODE 3:</span> 食指涂抹 (Smear)</p>
+                <p><span className="text-yellow-400 font-bold">MODE 3:</span> 食指涂抹 (Point)</p>
             </div>
           </div>
+
+          <div className="flex flex-col gap-2">
+            <InputSourcePicker
+              activeKind={inputConfig.kind}
+              onSelect={selectInput}
+              handCount={handCount}
+              onHandCountChange={(count) => selectInput(inputConfig, count)}
+            />
+            <CameraControls source={inputSource} settings={cameraSettings} onChange={updateCameraSettings} />
+            {inputSource.trackHead && (
+              <ParallaxControls
+                enabled={isParallaxEnabled}
+                onToggle={setIsParallaxEnabled}
+                strength={params.parallaxStrength}
+                onStrengthChange={(parallaxStrength) => setParams(prev => ({ ...prev, parallaxStrength }))}
+              />
+            )}
+            {inputSource.segmentPerson && (
+              <EffectTargetPicker mode={segmentationMode} onChange={setSegmentationMode} />
+            )}
+          </div>
+          <SurfaceModePicker mode={surfaceMode} onChange={setSurfaceMode} />
+          <MaterialPicker materialId={materialId} onChange={selectMaterial} />
+          <BackdropPicker backdrop={backdrop} onChange={setBackdrop} />
+          <PostProcessingPanel chain={postProcessing} />
+          <CaptureControls capture={capture} />
+          <SessionControls recorder={recorder} player={player} inputKind={inputConfig.kind} />
+
+          <button
+            onClick={() => setIsCalibrating(true)}
+            className="self-start flex items-center gap-1.5 bg-black/40 backdrop-blur-md border border-white/10 rounded-full px-3 py-1.5 text-[10px] uppercase tracking-wider text-white/80 hover:bg-white/10 transition-colors"
+          >
+            <Ruler className="w-3 h-3 text-cyan-400" />
+            Calibrate{calibration && <span className="text-white/40 normal-case">· {calibration.name}</span>}
+          </button>
         </div>
+
+        {/* Vision backend report */}
+        {detectorInfo && (
+          <div
+            className="absolute bottom-4 left-6 text-[9px] font-mono text-white/40 uppercase tracking-wider"
+            title={detectorInfo.fallbackReason ? `GPU failed: ${detectorInfo.fallbackReason}` : detectorInfo.assetBase}
+          >
+            <span className={detectorInfo.delegate === 'GPU' ? 'text-cyan-400/70' : 'text-yellow-400/70'}>{detectorInfo.delegate}</span>
+            {' · '}{detectorInfo.model} · tasks-vision {detectorInfo.runtimeVersion}
+            {detectorInfo.fallbackReason && ' · GPU fallback'}
+          </div>
+        )}
+
+        {/* Render quality report */}
+        {videoElement && <QualityIndicator quality={quality} />}
+
+        {isCalibrating && (
+          <CalibrationWizard
+            detectionRef={detectionRef}
+            activeProfile={calibration}
+            onProfileChange={setCalibration}
+            onClose={() => setIsCalibrating(false)}
+          />
+        )}
       </div>
     </div>
   );
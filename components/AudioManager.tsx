@@ -1,31 +1,52 @@
 
 import React, { useEffect, useRef } from 'react';
-import { HandData } from '../types';
+import { HandData, MAX_HANDS } from '../types';
+import { GestureEventBus } from '../services/GestureEvents';
+import { BimanualGestureDetector } from '../services/BimanualGestures';
+import { smearBrushes } from '../services/SmearBrushes';
+import { EffectModule, EffectVoice, effectModules, handlesGesture } from '../services/EffectModules';
+import { CanvasCapture } from '../services/CanvasCapture';
 
 interface AudioManagerProps {
   handDataRef: React.MutableRefObject<HandData>;
+  gestureEvents: GestureEventBus;
+  bimanual: BimanualGestureDetector;
+  // Matches the displayed image, so a hand on the right of the screen sounds on the right
+  mirror: boolean;
+  // Recordings take the master bus, so clips carry the same mix as the speakers
+  capture: CanvasCapture;
 }
 
-export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef }) => {
+// The smear layer per hand slot, panned to where that hand is; effect module voices share the panner
+interface HandVoice {
+  panner: StereoPannerNode;
+  // Smear (Matte Friction - Pink Noise)
+  smearFilter: BiquadFilterNode;
+  smearGain: GainNode;
+}
+
+export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef, gestureEvents, bimanual, mirror, capture }) => {
   const audioCtxRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
+  const noiseBufferRef = useRef<AudioBuffer | null>(null);
   const isSetupRef = useRef(false);
+  const detachCaptureRef = useRef<(() => void) | null>(null);
 
   // --- NODES REF ---
-  
-  // 1. Smear (Matte Friction - Pink Noise)
-  const smearGainRef = useRef<GainNode | null>(null);
-  const smearFilterRef = useRef<BiquadFilterNode | null>(null);
 
-  // 2. Pinch (Elastic Tension)
-  const pinchOsc1Ref = useRef<OscillatorNode | null>(null);
-  const pinchOsc2Ref = useRef<OscillatorNode | null>(null);
-  const pinchGainRef = useRef<GainNode | null>(null);
+  // 1. Per-hand smear voices, mixed through a bus that keeps several hands from clipping
+  const voicesRef = useRef<HandVoice[]>([]);
+  const voiceBusRef = useRef<GainNode | null>(null);
+  const mirrorRef = useRef(mirror);
+  mirrorRef.current = mirror;
 
-  // 3. Palm (Pure Water Flow)
-  const palmWaterSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const palmWaterFilterRef = useRef<BiquadFilterNode | null>(null);
-  const palmWaterGainRef = useRef<GainNode | null>(null);
+  // 2. Effect module voices (pinch tension, palm water, ...), rebuilt when the modules change
+  const moduleVoicesRef = useRef<{ module: EffectModule, voice: EffectVoice }[]>([]);
+
+  // 3. Two-Hand Tension (Strained Drone)
+  const tensionOscRef = useRef<OscillatorNode | null>(null);
+  const tensionFilterRef = useRef<BiquadFilterNode | null>(null);
+  const tensionGainRef = useRef<GainNode | null>(null);
 
   useEffect(() => {
     const initAudio = () => {
@@ -40,6 +61,7 @@ export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef }) => {
       masterGain.gain.value = 0.6; 
       masterGain.connect(ctx.destination);
       masterGainRef.current = masterGain;
+      detachCaptureRef.current = capture.attachAudio(ctx, masterGain);
 
       // --- SHARED NOISE BUFFER (Pink Noise) ---
       const bufferSize = 2 * ctx.sampleRate;
@@ -58,8 +80,10 @@ export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef }) => {
         output[i] *= 0.11; 
         b6 = white * 0.115926;
       }
+      noiseBufferRef.current = noiseBuffer;
 
-      // --- 1. SMEAR SYNTH ---
+      // --- 1. HAND VOICES ---
+      // The noise source is shared; every hand gets its own filter, gain and stereo position
       const noiseSource = ctx.createBufferSource();
       noiseSource.buffer = noiseBuffer;
       noiseSource.loop = true;
@@ -72,66 +96,62 @@ export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef }) => {
       lpFilter.type = 'lowpass';
       lpFilter.frequency.value = 3000;
 
-      const frictionFilter = ctx.createBiquadFilter();
-      frictionFilter.type = 'bandpass';
-      frictionFilter.Q.value = 0.6;
-      frictionFilter.frequency.value = 400;
-
-      const smearGain = ctx.createGain();
-      smearGain.gain.value = 0;
-
       noiseSource.connect(hpFilter);
       hpFilter.connect(lpFilter);
-      lpFilter.connect(frictionFilter);
-      frictionFilter.connect(smearGain);
-      smearGain.connect(masterGain);
       noiseSource.start();
 
-      smearFilterRef.current = frictionFilter;
-      smearGainRef.current = smearGain;
-
-      // --- 2. PINCH SYNTH ---
-      const osc1 = ctx.createOscillator();
-      const osc2 = ctx.createOscillator();
-      osc1.type = 'triangle';
-      osc2.type = 'triangle';
-      
-      const pinchGain = ctx.createGain();
-      pinchGain.gain.value = 0;
-
-      osc1.connect(pinchGain);
-      osc2.connect(pinchGain);
-      pinchGain.connect(masterGain);
-      osc1.start();
-      osc2.start();
-
-      pinchOsc1Ref.current = osc1;
-      pinchOsc2Ref.current = osc2;
-      pinchGainRef.current = pinchGain;
-
-      // --- 3. PALM SYNTH (Pure Water) ---
-      
-      // Layer A: Water Noise
-      const palmNoiseSource = ctx.createBufferSource();
-      palmNoiseSource.buffer = noiseBuffer; // Reuse pink noise
-      palmNoiseSource.loop = true;
-
-      const palmFilter = ctx.createBiquadFilter();
-      palmFilter.type = 'lowpass'; 
-      palmFilter.Q.value = 4.0; // Increased Q slightly for more "liquid" resonance
-      palmFilter.frequency.value = 300; 
-
-      const palmGain = ctx.createGain();
-      palmGain.gain.value = 0;
-
-      palmNoiseSource.connect(palmFilter);
-      palmFilter.connect(palmGain);
-      palmGain.connect(masterGain);
-      palmNoiseSource.start();
-
-      palmWaterSourceRef.current = palmNoiseSource;
-      palmWaterFilterRef.current = palmFilter;
-      palmWaterGainRef.current = palmGain;
+      const voiceBus = ctx.createGain();
+      voiceBus.connect(masterGain);
+      voiceBusRef.current = voiceBus;
+
+      voicesRef.current = Array.from({ length: MAX_HANDS }, (): HandVoice => {
+        const panner = ctx.createStereoPanner();
+        panner.connect(voiceBus);
+
+        // --- SMEAR SYNTH ---
+        const frictionFilter = ctx.createBiquadFilter();
+        frictionFilter.type = 'bandpass';
+        frictionFilter.Q.value = 0.6;
+        frictionFilter.frequency.value = 400;
+
+        const smearGain = ctx.createGain();
+        smearGain.gain.value = 0;
+
+        lpFilter.connect(frictionFilter);
+        frictionFilter.connect(smearGain);
+        smearGain.connect(panner);
+
+        return {
+          panner,
+          smearFilter: frictionFilter,
+          smearGain
+        };
+      });
+
+      // --- 2. EFFECT MODULE VOICES ---
+      buildModuleVoices();
+
+      // --- 3. TENSION SYNTH ---
+      const tensionOsc = ctx.createOscillator();
+      tensionOsc.type = 'sawtooth';
+      tensionOsc.frequency.value = 55;
+
+      const tensionFilter = ctx.createBiquadFilter();
+      tensionFilter.type = 'lowpass';
+      tensionFilter.Q.value = 8.0;
+      tensionFilter.frequency.value = 200;
+
+      const tensionGain = ctx.createGain();
+      tensionGain.gain.value = 0;
+
+      tensionOsc.connect(tensionFilter);
+      tensionFilter.connect(tensionGain);
+      tensionGain.connect(masterGain);
+      tensionOsc.start();
+
+      tensionOscRef.current = tensionOsc;
+      tensionFilterRef.current = tensionFilter;
+      tensionGainRef.current = tensionGain;
       
       isSetupRef.current = true;
     };
@@ -143,8 +163,10 @@ export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef }) => {
       }
     };
 
-    window.addEventListener('click', handleInteract);
-    window.addEventListener('touchstart', handleInteract);
+    // Capture phase: audio exists before any button's own click handler runs,
+    // so a recording started by the first click already has sound
+    window.addEventListener('click', handleInteract, true);
+    window.addEventListener('touchstart', handleInteract, true);
 
     let animationFrameId: number;
     const loop = () => {
@@ -156,81 +178,121 @@ export const AudioManager: React.FC<AudioManagerProps> = ({ handDataRef }) => {
     loop();
 
     return () => {
-      window.removeEventListener('click', handleInteract);
-      window.removeEventListener('touchstart', handleInteract);
+      window.removeEventListener('click', handleInteract, true);
+      window.removeEventListener('touchstart', handleInteract, true);
       cancelAnimationFrame(animationFrameId);
+      moduleVoicesRef.current.forEach(({ voice }) => voice.dispose());
+      moduleVoicesRef.current = [];
+      detachCaptureRef.current?.();
       audioCtxRef.current?.close();
     };
   }, []);
 
+  // One voice per module that brings one, playing through the per-hand panners
+  const buildModuleVoices = () => {
+    const ctx = audioCtxRef.current;
+    const masterGain = masterGainRef.current;
+    const noise = noiseBufferRef.current;
+    if (!ctx || !masterGain || !noise) return;
+    moduleVoicesRef.current.forEach(({ voice }) => voice.dispose());
+    const audio = { ctx, hands: voicesRef.current.map(voice => voice.panner), master: masterGain, noise };
+    moduleVoicesRef.current = effectModules.list().flatMap(module =>
+      module.createVoice ? [{ module, voice: module.createVoice(audio) }] : []
+    );
+  };
+
+  useEffect(() => {
+    return effectModules.subscribe(() => {
+      if (isSetupRef.current) buildModuleVoices();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // --- GESTURE ONSETS ---
+  // Short one-shot accents on top of the continuous layers: each module
+  // voices its own gestures' starts (a pluck for pinch, a drop for palm),
+  // and a bright burst marks a clap.
+  useEffect(() => {
+    return gestureEvents.on('gestureStart', (e) => {
+      const ctx = audioCtxRef.current;
+      if (!ctx || !isSetupRef.current || ctx.state !== 'running') return;
+      moduleVoicesRef.current.forEach(({ module, voice }) => {
+        if (handlesGesture(module, e.gesture)) voice.onset?.(e, ctx.currentTime);
+      });
+    });
+  }, [gestureEvents]);
+
+  useEffect(() => {
+    return bimanual.onClap(() => playClap());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bimanual]);
+
+  const playClap = () => {
+    const ctx = audioCtxRef.current;
+    const masterGain = masterGainRef.current;
+    if (!ctx || !masterGain || !noiseBufferRef.current || !isSetupRef.current || ctx.state !== 'running') return;
+
+    // Bright, very short burst
+    const now = ctx.currentTime;
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(0.4, now);
+    envelope.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+    envelope.connect(masterGain);
+
+    const noise = ctx.createBufferSource();
+    noise.buffer = noiseBufferRef.current;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 1200;
+    noise.connect(filter);
+    filter.connect(envelope);
+    noise.start(now);
+    noise.stop(now + 0.3);
+    noise.onended = () => envelope.disconnect();
+  };
+
   const updateAudio = (now: number) => {
     const hands = handDataRef.current;
-    
-    // --- METRICS ---
-    let maxSmearVelocity = 0;
-    let maxPinchStretch = 0;
-    let maxPalmProximity = 0;
-    let activePinch = false;
-
     const RAMP_TIME = 0.05;
 
-    hands.forEach(hand => {
-      // 1. Smear
-      const vel = Math.hypot(hand.indexTip.vx, hand.indexTip.vy);
-      const normalizedVel = Math.min(vel / 3.0, 1.0); 
-      maxSmearVelocity = Math.max(maxSmearVelocity, normalizedVel);
+    // Equal-power mix: more hands, not louder
+    const activeHands = hands.filter(hand => hand.gesture !== 'NONE').length;
+    voiceBusRef.current?.gain.setTargetAtTime(1 / Math.sqrt(Math.max(activeHands, 1)), now, 0.1);
 
-      // 2. Palm
-      if (hand.gesture === 'PALM') {
-        maxPalmProximity = Math.max(maxPalmProximity, hand.z);
-      }
+    voicesRef.current.forEach((voice, i) => {
+      const hand = hands[i];
+      const gesture = hand?.gesture ?? 'NONE';
 
-      // 3. Pinch
-      if (hand.gesture === 'PINCH') {
-        activePinch = true;
-        const handVel = Math.hypot(hand.indexTip.vx, hand.indexTip.vy);
-        maxPinchStretch = Math.max(maxPinchStretch, Math.min(handVel / 2.0, 1.0));
+      // --- METRICS ---
+      // Smear (only gestures that paint)
+      let smearVelocity = 0;
+      if (hand && smearBrushes.has(gesture)) {
+        const vel = Math.hypot(hand.indexTip.vx, hand.indexTip.vy);
+        smearVelocity = Math.min(vel / 1.8, 1.0); // units per second
       }
-    });
-
-    // --- APPLY ---
-
-    // 1. Smear (Matte Friction)
-    if (smearGainRef.current && smearFilterRef.current) {
-        const isActive = maxSmearVelocity > 0.05;
-        // Volume Reduced: 0.8 -> 0.3
-        const targetVol = isActive ? maxSmearVelocity * 0.3 : 0;
-        const targetFreq = 300 + (maxSmearVelocity * 900);
 
-        smearGainRef.current.gain.setTargetAtTime(targetVol, now, RAMP_TIME);
-        smearFilterRef.current.frequency.setTargetAtTime(targetFreq, now, RAMP_TIME);
-    }
+      // --- APPLY ---
+      if (hand) {
+        const screenX = mirrorRef.current ? 1.0 - hand.x : hand.x;
+        voice.panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, (screenX - 0.5) * 1.6)), now, 0.1);
+      }
 
-    // 2. Pinch (Rubber Tension)
-    if (pinchGainRef.current && pinchOsc1Ref.current && pinchOsc2Ref.current) {
-        const targetVol = activePinch ? 0.2 : 0;
-        const baseFreq = 100; 
-        const targetFreq = baseFreq + (maxPinchStretch * 150); 
+      // Smear (Matte Friction)
+      const smearActive = smearVelocity > 0.05;
+      // Volume Reduced: 0.8 -> 0.3
+      voice.smearGain.gain.setTargetAtTime(smearActive ? smearVelocity * 0.3 : 0, now, RAMP_TIME);
+      voice.smearFilter.frequency.setTargetAtTime(300 + (smearVelocity * 900), now, RAMP_TIME);
+    });
 
-        pinchGainRef.current.gain.setTargetAtTime(targetVol, now, 0.05);
-        pinchOsc1Ref.current.frequency.setTargetAtTime(targetFreq, now, RAMP_TIME);
-        pinchOsc2Ref.current.frequency.setTargetAtTime(targetFreq * 1.02, now, RAMP_TIME); 
-    }
+    // 2. Effect modules
+    moduleVoicesRef.current.forEach(({ voice }) => voice.update(now, hands));
 
-    // 3. Palm (Pure Water Flow)
-    if (palmWaterGainRef.current && palmWaterFilterRef.current) {
-        const isActive = maxPalmProximity > 0.01;
-        // Smoothed volume
-        const targetVol = isActive ? Math.min(maxPalmProximity * 2.5, 1.0) : 0;
-        
-        // --- Water Logic ---
-        // LFO for "flowing" texture
-        const flowLFO = Math.sin(now * 2.5) * 250; 
-        // Filter logic for water sound
-        const waterFreq = 350 + (maxPalmProximity * 600) + flowLFO; 
-        
-        palmWaterGainRef.current.gain.setTargetAtTime(targetVol, now, 0.3);
-        palmWaterFilterRef.current.frequency.setTargetAtTime(waterFreq, now, 0.2);
+    // 3. Tension (Two Hands Pulled Apart)
+    if (tensionGainRef.current && tensionOscRef.current && tensionFilterRef.current) {
+        const tension = bimanual.state.tension;
+        tensionGainRef.current.gain.setTargetAtTime(tension * 0.12, now, 0.1);
+        tensionOscRef.current.frequency.setTargetAtTime(55 + tension * 55, now, 0.1);
+        tensionFilterRef.current.frequency.setTargetAtTime(200 + tension * 1200, now, 0.1);
     }
   };
 
@@ -0,0 +1,60 @@
+import React, { useRef } from 'react';
+import { Camera, Film, ImageIcon, Sparkles } from 'lucide-react';
+import { BackdropConfig, BackdropKind } from '../services/BackdropSource';
+
+interface BackdropPickerProps {
+  backdrop: BackdropConfig;
+  onChange: (backdrop: BackdropConfig) => void;
+}
+
+const KINDS: { kind: BackdropKind; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { kind: 'camera', label: 'Camera', icon: Camera },
+  { kind: 'image', label: 'Image', icon: ImageIcon },
+  { kind: 'video', label: 'Video', icon: Film },
+  { kind: 'procedural', label: 'Shader', icon: Sparkles },
+];
+
+// Tracking always uses the camera (or replay); this only changes what the glass refracts
+export const BackdropPicker: React.FC<BackdropPickerProps> = ({ backdrop, onChange }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (kind: BackdropKind) => {
+    if (kind === 'image') imageInputRef.current?.click();
+    else if (kind === 'video') videoInputRef.current?.click();
+    else onChange({ kind, fit: backdrop.fit });
+  };
+
+  const pickFile = (kind: BackdropKind) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChange({ kind, fit: backdrop.fit, media: file });
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 w-fit" title="What the glass refracts">
+      {KINDS.map(({ kind, label, icon: Icon }) => (
+        <button
+          key={kind}
+          onClick={() => select(kind)}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+            backdrop.kind === kind ? 'bg-white text-black' : 'text-white/60 hover:bg-white/10'
+          }`}
+        >
+          <Icon className="w-3 h-3" />
+          {label}
+        </button>
+      ))}
+      <button
+        onClick={() => onChange({ ...backdrop, fit: backdrop.fit === 'cover' ? 'contain' : 'cover' })}
+        disabled={backdrop.kind === 'camera'}
+        className="px-3 py-1 rounded-full text-[10px] uppercase tracking-wider text-white/60 hover:bg-white/10 transition-colors disabled:opacity-30"
+        title="Crop to fill, or fit with bars"
+      >
+        {backdrop.fit}
+      </button>
+      <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={pickFile('image')} />
+      <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={pickFile('video')} />
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Trash2, X } from 'lucide-react';
+import { RawHandFrame } from '../services/HandInputSource';
+import {
+  CALIBRATION_STEPS,
+  CalibrationProfile,
+  CalibrationSample,
+  CalibrationStepId,
+  deleteProfile,
+  deriveProfile,
+  loadProfiles,
+  measureDetection,
+  saveProfile,
+  setActiveProfile,
+  summarizeSamples,
+} from '../services/calibration';
+
+interface CalibrationWizardProps {
+  // The newest landmarker detection, replaced once per detection (not per display frame)
+  detectionRef: React.MutableRefObject<RawHandFrame | null>;
+  activeProfile: CalibrationProfile | null;
+  onProfileChange: (profile: CalibrationProfile | null) => void;
+  onClose: () => void;
+}
+
+// Time to get into the pose before sampling starts, and how long each step samples for
+const SETTLE_MS = 800;
+const SAMPLE_WINDOW_MS = 1500;
+// Detections a window needs to count; a slow detector gets another window instead
+const MIN_SAMPLES = 10;
+
+type SamplingPhase = 'waiting' | 'settling' | 'sampling';
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ detectionRef, activeProfile, onProfileChange, onClose }) => {
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>(() => loadProfiles());
+  const [stepIndex, setStepIndex] = useState<number | null>(null); // null = profile list
+  const [progress, setProgress] = useState(0);
+  const [phase, setPhase] = useState<SamplingPhase>('waiting');
+  const [results, setResults] = useState<Partial<Record<CalibrationStepId, CalibrationSample>>>({});
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const samplesRef = useRef<CalibrationSample[]>([]);
+
+  const step = stepIndex !== null && stepIndex < CALIBRATION_STEPS.length ? CALIBRATION_STEPS[stepIndex] : null;
+
+  // --- SAMPLING LOOP ---
+  useEffect(() => {
+    if (!step) return;
+    samplesRef.current = [];
+    setProgress(0);
+    setPhase('waiting');
+
+    let frameId: number;
+    let lastDetection = detectionRef.current;
+    let settleStart: number | null = null;
+    let windowStart: number | null = null;
+    const tick = (now: number) => {
+      // Measure each detection once, as the landmarker saw it; display frames
+      // in between only carry interpolated or extrapolated poses
+      const detection = detectionRef.current;
+      const isFresh = detection !== lastDetection;
+      lastDetection = detection;
+      const sample = isFresh && detection ? measureDetection(detection) : null;
+
+      if (windowStart === null) {
+        if (isFresh && !sample) {
+          // Lost the hand while getting into pose; settle again once it is back
+          settleStart = null;
+          setPhase('waiting');
+        } else if (sample && settleStart === null) {
+          settleStart = now;
+          setPhase('settling');
+        }
+        if (settleStart !== null && now - settleStart >= SETTLE_MS) {
+          windowStart = now;
+          setPhase('sampling');
+        }
+      } else {
+        if (sample) samplesRef.current.push(sample);
+        const elapsed = now - windowStart;
+        setProgress(Math.min(elapsed / SAMPLE_WINDOW_MS, 1));
+        if (elapsed >= SAMPLE_WINDOW_MS) {
+          if (samplesRef.current.length >= MIN_SAMPLES) {
+            setResults(prev => ({ ...prev, [step.id]: summarizeSamples(samplesRef.current) }));
+            setStepIndex(i => (i ?? 0) + 1);
+            return;
+          }
+          samplesRef.current = [];
+          windowStart = now;
+        }
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [step, detectionRef]);
+
+  const startWizard = () => {
+    setResults({});
+    setError(null);
+    setName(`Profile ${profiles.length + 1}`);
+    setStepIndex(0);
+  };
+
+  const save = () => {
+    try {
+      const profile = deriveProfile(name.trim() || 'Default', results as Record<CalibrationStepId, CalibrationSample>);
+      saveProfile(profile);
+      setProfiles(loadProfiles());
+      onProfileChange(profile);
+      setStepIndex(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const select = (profile: CalibrationProfile | null) => {
+    setActiveProfile(profile?.name ?? null);
+    onProfileChange(profile);
+  };
+
+  const remove = (profile: CalibrationProfile) => {
+    deleteProfile(profile.name);
+    setProfiles(loadProfiles());
+    if (activeProfile?.name === profile.name) onProfileChange(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="relative bg-zinc-900/90 border border-white/10 rounded-2xl p-6 w-80 text-white shadow-2xl">
+        <button onClick={onClose} className="absolute top-3 right-3 p-1 hover:bg-white/10 rounded-full transition-colors">
+          <X className="w-4 h-4 text-white/60" />
+        </button>
+        <h2 className="text-sm font-bold tracking-widest uppercase mb-4">Calibration</h2>
+
+        {/* Saved profiles */}
+        {stepIndex === null && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <button
+                onClick={() => select(null)}
+                className={`w-full text-left px-3 py-1.5 rounded-lg text-xs transition-colors ${activeProfile ? 'hover:bg-white/10 text-white/60' : 'bg-white/15'}`}
+              >
+                Defaults
+              </button>
+              {profiles.map(profile => (
+                <div key={profile.name} className="flex items-center gap-1">
+                  <button
+                    onClick={() => select(profile)}
+                    className={`flex-1 text-left px-3 py-1.5 rounded-lg text-xs transition-colors ${activeProfile?.name === profile.name ? 'bg-white/15' : 'hover:bg-white/10 text-white/60'}`}
+                  >
+                    {profile.name}
+                  </button>
+                  <button onClick={() => remove(profile)} className="p-1.5 hover:bg-white/10 rounded-full transition-colors" title="Delete profile">
+                    <Trash2 className="w-3 h-3 text-white/40" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={startWizard}
+              className="w-full bg-white text-black hover:bg-zinc-200 px-4 py-2 rounded-full text-xs font-medium transition-colors"
+            >
+              New Calibration
+            </button>
+          </div>
+        )}
+
+        {/* Capture step */}
+        {step && (
+          <div className="space-y-3">
+            <p className="text-[10px] text-white/40 uppercase tracking-wider">
+              Step {stepIndex! + 1} / {CALIBRATION_STEPS.length} · {step.title}
+            </p>
+            <p className="text-sm text-white/80 leading-relaxed">{step.instruction}</p>
+            <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-cyan-400 transition-[width]" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <p className={`text-[10px] font-mono ${phase === 'waiting' ? 'text-yellow-300/80' : 'text-cyan-200/80'}`}>
+              {phase === 'waiting' && 'Waiting for a tracked hand (camera or video input only)'}
+              {phase === 'settling' && 'Get into position…'}
+              {phase === 'sampling' && 'Hold still…'}
+            </p>
+            <button onClick={() => setStepIndex(null)} className="text-[10px] text-white/40 hover:text-white/70 uppercase tracking-wider">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {/* Review & save */}
+        {stepIndex === CALIBRATION_STEPS.length && (
+          <div className="space-y-3">
+            <div className="text-[10px] font-mono text-white/60 space-y-0.5">
+              <p>pinch open / closed: {results.open?.pinchDistance.toFixed(3)} / {results.pinch?.pinchDistance.toFixed(3)}</p>
+              <p>hand size near / far: {results.near?.handSize.toFixed(3)} / {results.far?.handSize.toFixed(3)}</p>
+            </div>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Profile name"
+              className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-1.5 text-xs outline-none focus:border-cyan-400/60"
+            />
+            {error && <p className="text-red-300/80 text-[10px] font-mono">{error}</p>}
+            <div className="flex gap-2">
+              <button
+                onClick={startWizard}
+                className="flex-1 px-3 py-2 rounded-full text-xs text-white/70 hover:bg-white/10 transition-colors"
+              >
+                Redo
+              </button>
+              <button
+                onClick={save}
+                className="flex-1 flex items-center justify-center gap-1.5 bg-white text-black hover:bg-zinc-200 px-3 py-2 rounded-full text-xs font-medium transition-colors"
+              >
+                <Check className="w-3 h-3" /> Save & Apply
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { FlipHorizontal } from 'lucide-react';
+import { HandInputSource } from '../services/HandInputSource';
+import { CameraStatus, WebcamHandSource } from '../services/WebcamHandSource';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS, CameraResolution, CameraSettings, listCameras } from '../services/cameraSettings';
+
+interface CameraControlsProps {
+  source: HandInputSource;
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+}
+
+const selectClass = "bg-transparent text-[9px] text-white/60 uppercase tracking-wider outline-none max-w-[9rem] truncate";
+
+export const CameraControls: React.FC<CameraControlsProps> = ({ source, settings, onChange }) => {
+  const webcam = source instanceof WebcamHandSource ? source : null;
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [status, setStatus] = useState<CameraStatus | null>(() => webcam?.getStatus() ?? null);
+
+  useEffect(() => {
+    if (!webcam) return;
+    setStatus(webcam.getStatus());
+    return webcam.subscribe(setStatus);
+  }, [webcam]);
+
+  // Device list, refreshed on hot-plug and once the stream is live (labels need permission)
+  useEffect(() => {
+    if (!webcam) return;
+    const refresh = () => listCameras().then(setCameras).catch(err => console.warn("Could not list cameras:", err));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [webcam, status?.state]);
+
+  const update = (patch: Partial<CameraSettings>) => {
+    const next = { ...settings, ...patch };
+    onChange(next);
+    webcam?.updateSettings(next).catch(err => console.error("Could not switch camera:", err));
+  };
+
+  return (
+    <div className="flex flex-col gap-1 w-64">
+      <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 pr-3">
+        <button
+          onClick={() => update({ mirror: !settings.mirror })}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+            settings.mirror ? 'bg-white/20 text-white' : 'text-white/50 hover:bg-white/10'
+          }`}
+          title="Mirror the image"
+        >
+          <FlipHorizontal className="w-3 h-3" /> Mirror
+        </button>
+
+        {webcam && (
+          <>
+            <select
+              value={settings.resolution}
+              onChange={(e) => update({ resolution: e.target.value as CameraResolution })}
+              className={selectClass}
+            >
+              {(Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[]).map(res => <option key={res} value={res}>{res}</option>)}
+            </select>
+            <select
+              value={settings.frameRate}
+              onChange={(e) => update({ frameRate: parseInt(e.target.value, 10) })}
+              className={selectClass}
+            >
+              {CAMERA_FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+            </select>
+          </>
+        )}
+      </div>
+
+      {webcam && (
+        <div className="flex items-center gap-2 px-3">
+          <select
+            value={settings.deviceId ?? ''}
+            onChange={(e) => update({ deviceId: e.target.value || null })}
+            className={`${selectClass} normal-case flex-1`}
+          >
+            <option value="">Default camera</option>
+            {cameras.map((camera, i) => (
+              <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+            ))}
+          </select>
+          {status && (
+            <span className={`text-[9px] font-mono ${status.state === 'live' ? 'text-white/40' : 'text-yellow-300/80'}`}>
+              {status.state === 'live' ? `${status.width}×${status.height}@${Math.round(status.frameRate)}` : status.state}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
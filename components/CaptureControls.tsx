@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Aperture, Circle, Square } from 'lucide-react';
+import { CanvasCapture, CaptureState, STILL_SCALES, StillScale, captureFileName, downloadBlob } from '../services/CanvasCapture';
+
+interface CaptureControlsProps {
+  capture: CanvasCapture;
+}
+
+const formatDuration = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const CaptureControls: React.FC<CaptureControlsProps> = ({ capture }) => {
+  const [state, setState] = useState<CaptureState>(() => capture.getState());
+  const [stillScale, setStillScale] = useState<StillScale>(1);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => capture.subscribe(setState), [capture]);
+  useEffect(() => capture.onClip(clip => downloadBlob(clip, captureFileName('webm'))), [capture]);
+
+  // Ticks the indicator while a clip is running
+  useEffect(() => {
+    if (!state.isRecording) return;
+    setElapsed(0);
+    const interval = window.setInterval(() => setElapsed(performance.now() - state.startedAt), 250);
+    return () => window.clearInterval(interval);
+  }, [state.isRecording, state.startedAt]);
+
+  const takeStill = async () => {
+    try {
+      const png = await capture.takeStill(stillScale);
+      setError(null);
+      downloadBlob(png, captureFileName('png'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const toggleRecording = () => {
+    if (state.isRecording) {
+      capture.stopRecording();
+      return;
+    }
+    try {
+      capture.startRecording();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {state.isRecording && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-black/60 backdrop-blur-md border border-red-500/40 rounded-full px-3 py-1 pointer-events-none">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+          <span className="text-[10px] font-mono text-red-200 tracking-wider">
+            REC {formatDuration(elapsed)} / {formatDuration(state.maxDuration)}
+          </span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 pr-3 w-fit">
+        <button
+          onClick={takeStill}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider text-white/80 hover:bg-white/10 transition-colors"
+          title="Save a PNG of the current frame"
+        >
+          <Aperture className="w-3 h-3 text-cyan-400" /> Still
+        </button>
+        <select
+          value={stillScale}
+          onChange={(e) => setStillScale(parseInt(e.target.value, 10) as StillScale)}
+          className="bg-transparent text-[9px] text-white/50 uppercase tracking-wider outline-none"
+          title="Still resolution"
+        >
+          {STILL_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+        </select>
+        <button
+          onClick={toggleRecording}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider text-white/80 hover:bg-white/10 transition-colors"
+          title={`Record a WebM clip with sound (up to ${formatDuration(state.maxDuration)})`}
+        >
+          {state.isRecording
+            ? <><Square className="w-3 h-3 text-red-400 fill-red-400" /> Stop</>
+            : <><Circle className="w-3 h-3 text-red-400" /> Clip</>}
+        </button>
+      </div>
+
+      {error && <p className="text-red-300/80 text-[10px] font-mono">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { SEGMENTATION_MODES, SegmentationMode } from '../services/PersonSegmentation';
+
+interface EffectTargetPickerProps {
+  mode: SegmentationMode;
+  onChange: (mode: SegmentationMode) => void;
+}
+
+export const EffectTargetPicker: React.FC<EffectTargetPickerProps> = ({ mode, onChange }) => {
+  return (
+    <div
+      className="flex items-center gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 w-fit"
+      title="Where the glass effects apply (loads a segmentation model)"
+    >
+      <Layers className="w-3 h-3 text-white/40 mx-2" />
+      {SEGMENTATION_MODES.map(({ mode: option, label }) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+            mode === option ? 'bg-white text-black' : 'text-white/60 hover:bg-white/10'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,13 +1,49 @@
 
-import React, { useRef, useMemo, useEffect } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { RootState, useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { FluidParams, HandData, GestureType } from '../types';
+import { FluidParams, HandData, MAX_HANDS, SurfaceMode } from '../types';
+import { GestureEventBus } from '../services/GestureEvents';
+import { BimanualGestureDetector } from '../services/BimanualGestures';
+import { smearBrushes, MAX_BRUSH_POINTS } from '../services/SmearBrushes';
+import { HeadParallax } from '../services/HeadTracking';
+import { PersonMask, SegmentationMask, SegmentationMode } from '../services/PersonSegmentation';
+import { StableFluidSolver, collectFluidSplats } from '../services/StableFluidSolver';
+import { WaveHeightfield, collectWaveSources } from '../services/WaveHeightfield';
+import { MembranePinches, MembraneSolver, imageToSurface } from '../services/MembraneSolver';
+import { PingPongTarget, detectFieldEncoding } from '../services/PingPongTarget';
+import { QUALITY_LEVELS, QualityGovernor } from '../services/QualityGovernor';
+import { PostProcessingChain } from '../services/PostProcessing';
+import { MaterialId, MaterialTransition, getMaterialPreset } from '../services/MaterialPresets';
+import { BackdropConfig, BackdropSource, createBackdropSource } from '../services/BackdropSource';
+import { CanvasCapture } from '../services/CanvasCapture';
+import { EffectModule, composeEffectChunk, composeEffectDeclarations, effectHandsUniform, effectModules, handlesGesture } from '../services/EffectModules';
 
 interface FluidSceneProps {
   video: HTMLVideoElement;
   params: FluidParams;
   handDataRef: React.MutableRefObject<HandData>;
+  gestureEvents: GestureEventBus;
+  bimanual: BimanualGestureDetector;
+  // Flip the displayed image horizontally (selfie view)
+  mirror: boolean;
+  // Viewer head position from the optional face pass
+  headParallax: HeadParallax;
+  // Person mask from the optional segmentation pass, and which side of it the effects hit
+  personMask: PersonMask;
+  segmentationMode: SegmentationMode;
+  // Analytic ripples, or the stable-fluids simulation
+  surfaceMode: SurfaceMode;
+  // Material preset; `params` already carries its values, the scene eases into them
+  materialId: MaterialId;
+  // What the glass refracts; the webcam is still what the hands are tracked in
+  backdrop: BackdropConfig;
+  // Frame-time monitor that picks DPR, smear resolution and blur taps
+  quality: QualityGovernor;
+  // Passes run over the composite before it reaches the screen
+  postProcessing: PostProcessingChain;
+  // Stills are taken in the render loop, so the scene fulfils them
+  capture: CanvasCapture;
 }
 
 // --- SHADERS ---
@@ -20,6 +56,54 @@ const vertexShader = `
   }
 `;
 
+// Composite vertices: a full-screen quad, or on the membrane surface one vertex per
+// simulated node, moved with it so the image is carried along
+const compositeVertexShader = `
+  uniform int uSurfaceMode;
+  uniform sampler2D uMembrane;       // xy = node displacement, x scaled by uMembraneAspect
+  uniform sampler2D uMembraneLinks;  // 1 = broken: r = right, g = up, b = up-right, a = up-left
+  uniform vec2 uMembraneGrid;        // nodes across, down
+  uniform float uMembraneAspect;
+
+  varying vec2 vUv;
+  varying float vMembraneStrain;     // > 0 stretched, < 0 bunched up
+  varying float vMembraneTorn;       // 1 at nodes that lost a link
+
+  vec2 membraneNode(vec2 st, vec2 offset) {
+    vec2 node = st + offset / uMembraneGrid;
+    return (node * uMembraneGrid - 0.5) / (uMembraneGrid - 1.0) * vec2(uMembraneAspect, 1.0) + texture2D(uMembrane, node).xy;
+  }
+
+  void main() {
+    vUv = uv;
+    vec2 pos = position.xy;
+    vMembraneStrain = 0.0;
+    vMembraneTorn = 0.0;
+
+    if (uSurfaceMode == 2) {
+      vec2 texel = 1.0 / uMembraneGrid;
+      vec2 st = (uv * (uMembraneGrid - 1.0) + 0.5) * texel;
+      pos += texture2D(uMembrane, st).xy / vec2(uMembraneAspect, 1.0) * 2.0;
+
+      // Stretch of the sheet around this node, from its neighbours either side
+      vec2 cell = vec2(uMembraneAspect, 1.0) / (uMembraneGrid - 1.0);
+      float sx = length(membraneNode(st, vec2(1.0, 0.0)) - membraneNode(st, vec2(-1.0, 0.0))) / (2.0 * cell.x);
+      float sy = length(membraneNode(st, vec2(0.0, 1.0)) - membraneNode(st, vec2(0.0, -1.0))) / (2.0 * cell.y);
+      vMembraneStrain = (sx + sy) * 0.5 - 1.0;
+
+      vec4 own = texture2D(uMembraneLinks, st);
+      float torn = max(max(own.r, own.g), max(own.b, own.a));
+      torn = max(torn, texture2D(uMembraneLinks, st - vec2(texel.x, 0.0)).r);
+      torn = max(torn, texture2D(uMembraneLinks, st - vec2(0.0, texel.y)).g);
+      torn = max(torn, texture2D(uMembraneLinks, st - texel).b);
+      torn = max(torn, texture2D(uMembraneLinks, st + vec2(texel.x, -texel.y)).a);
+      vMembraneTorn = torn;
+    }
+
+    gl_Position = vec4(pos, 0.0, 1.0);
+  }
+`;
+
 // 1. Smear Simulation Shader (Compute/Draw Logic)
 // Writes to FBO: 
 // RGB: R=DirX, G=DirY, B=Speed(Velocity Magnitude)
@@ -28,14 +112,17 @@ const smearFragmentShader = `
   uniform sampler2D uLastFrame; // Previous frame's smear
   uniform vec2 uResolution;
   
-  // Hand Inputs
-  uniform vec2 uIndexPos[2];
-  uniform vec2 uIndexVel[2];
+  // Brush Inputs (image space, velocity in screen units per second)
+  #define MAX_BRUSHES ${MAX_BRUSH_POINTS}
+  uniform int uBrushCount;
+  uniform vec2 uBrushPos[MAX_BRUSHES];
+  uniform vec2 uBrushVel[MAX_BRUSHES];
+  uniform vec2 uBrushShape[MAX_BRUSHES]; // x = radius, y = strength
   
   // Params
   uniform float uDecay;
-  uniform float uRadius;
   uniform float uIntensity;
+  uniform float uMinDecayStep; // one byte step on 8-bit targets, 0 otherwise
 
   varying vec2 vUv;
 
@@ -56,7 +143,9 @@ const smearFragmentShader = `
     
     // 3. Exponential Decay: Fades gradually based on current intensity
     // (alpha * const) is smoother than linear subtraction (alpha - const)
-    float newAlpha = lastState.a * (1.0 - dynamicDecay);
+    // On 8-bit targets a small fraction of alpha rounds back to the same byte
+    // and the smear never fades, so always drop by at least one step there
+    float newAlpha = max(min(lastState.a * (1.0 - dynamicDecay), lastState.a - uMinDecayStep), 0.0);
     
     // Hard cutoff to prevent infinite low-alpha ghosting
     if (newAlpha < 0.005) newAlpha = 0.0;
@@ -69,20 +158,23 @@ const smearFragmentShader = `
     vec2 totalVel = vec2(0.0);
     float maxInputSpeed = 0.0;
 
-    // Check both hands
-    for(int i=0; i<2; i++) {
+    // Check every active brush point
+    for(int i=0; i<MAX_BRUSHES; i++) {
+        if (i >= uBrushCount) break;
+
         // Fix UV coordinates (Input 0..1, flip Y)
-        vec2 handPos = vec2(uIndexPos[i].x, 1.0 - uIndexPos[i].y);
+        vec2 brushPos = vec2(uBrushPos[i].x, 1.0 - uBrushPos[i].y);
+        float radius = uBrushShape[i].x;
         
-        float dist = distance(vUv, handPos);
+        float dist = distance(vUv, brushPos);
         
-        float velMag = length(uIndexVel[i]);
+        float velMag = length(uBrushVel[i]);
         
         // Threshold: Only draw if moving fast enough to "smear"
-        if(velMag > 0.02) { 
-            float brush = smoothstep(uRadius, uRadius * 0.4, dist);
+        if(velMag > 0.012) { 
+            float brush = smoothstep(radius, radius * 0.4, dist) * uBrushShape[i].y;
             if(brush > 0.0) {
-                vec2 dir = normalize(uIndexVel[i]);
+                vec2 dir = normalize(uBrushVel[i]);
                 totalVel += dir * brush;
                 totalBrush += brush;
                 maxInputSpeed = max(maxInputSpeed, velMag);
@@ -99,8 +191,8 @@ const smearFragmentShader = `
         vec2 encodedDir = normalize(totalVel) * 0.5 + 0.5;
         
         // Encode Speed (B) - Clamp to 0..1 range
-        // Typical fast swipe velocity is ~0.8 with current smoothing settings
-        float encodedSpeed = clamp(maxInputSpeed, 0.0, 1.0); 
+        // Saturates at a moderate swipe of ~0.6 screen units per second
+        float encodedSpeed = clamp(maxInputSpeed / 0.6, 0.0, 1.0); 
         
         vec3 targetState = vec3(encodedDir, encodedSpeed);
         
@@ -113,31 +205,30 @@ const smearFragmentShader = `
   }
 `;
 
-// 2. Final Composite Shader
-const compositeFragmentShader = `
+// 2. Final Composite Shader, with every effect module's GLSL spliced in
+const createCompositeShader = (modules: readonly EffectModule[]) => `
   uniform sampler2D uTexture; // Webcam
+  uniform sampler2D uBackdrop; // What the glass refracts when it is not the webcam
+  uniform vec2 uBackdropResolution;
+  uniform int uBackdropMode;   // 0 = webcam, 1 = uBackdrop
+  uniform int uBackdropFit;    // 0 = cover, 1 = contain
   uniform sampler2D uSmearTexture; // The smear FBO
   
   uniform vec2 uResolution;
   uniform vec2 uTextureResolution;
   uniform float uTime;
   
-  // Hand State Arrays
-  uniform vec2 uHandPos[2];       
-  uniform int uHandGesture[2];
-  uniform float uHandZ[2];
-  
-  // Stretch Specifics
-  uniform vec2 uStretchVector[2];
-  uniform vec2 uStretchAnchor[2];
+  // Hand State Arrays (slots past uHandCount are ignored)
+  #define MAX_HANDS ${MAX_HANDS}
+  uniform int uHandCount;
+  uniform vec2 uHandPos[MAX_HANDS];
+  uniform float uHandZ[MAX_HANDS];
   
   // Params
   uniform float uReflectionIntensity;
   uniform float uRefractionIndex;
   uniform float uDistortionStrength;
   uniform float uWaveHeight;
-  uniform float uRippleStrength;
-  uniform float uSpeed;
   
   uniform float uGrabRadius;
   uniform float uBlendSoftness;
@@ -145,8 +236,46 @@ const compositeFragmentShader = `
   
   // Smear Params
   uniform float uSmearBleed;
+  uniform int uBlurTaps;       // 2-8, set by the quality governor
+
+  // Two-Hand Params
+  uniform vec2 uViewCenter;    // pivot (shader space)
+  uniform vec2 uViewPan;
+  uniform float uViewScale;
+  uniform float uViewRotation;
+  uniform float uTension;
+  uniform float uMirror;       // 1 = selfie view, 0 = image as captured
+
+  // Head Parallax
+  uniform vec2 uHeadOffset;    // shader space, already scaled by strength
+  uniform float uHeadPresence;
+
+  // Ripple Surface
+  uniform sampler2D uRippleField;    // wave heightfield, r = height, y up (mirrorUV space)
+  uniform vec2 uRippleTexel;
+  uniform float uRippleGridHeight;   // cells along the image height
+  uniform float uRippleByteRange;    // > 0 when heights are byte-packed (see fieldCodec)
+
+  // Fluid Surface
+  uniform int uSurfaceMode;          // 0 = ripple, 1 = fluid, 2 = membrane
+  uniform sampler2D uFluidVelocity;  // image units/s, y up (mirrorUV space)
+  uniform sampler2D uFluidDye;
+
+  // Effect Target
+  uniform sampler2D uPersonMask; // person confidence, row 0 = image top
+  uniform int uMaskMode;         // 0 = everywhere, 1 = background, 2 = person, 3 = crisp hands
+  uniform float uHandActive[MAX_HANDS];
+
+  // Material (see services/MaterialPresets.ts)
+  uniform float uMetallic;
+  uniform float uFrost;
+  uniform float uCracks;
+  uniform float uIridescence;
+  uniform vec3 uMaterialTint;
 
   varying vec2 vUv;
+  varying float vMembraneStrain;
+  varying float vMembraneTorn;
 
   // --- NOISE ---
   vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
@@ -201,6 +330,29 @@ const compositeFragmentShader = `
                                   dot(p2,x2), dot(p3,x3) ) );
   }
 
+  vec2 hash22(vec2 p) {
+    vec3 q = fract(vec3(p.xyx) * vec3(0.1031, 0.1030, 0.0973));
+    q += dot(q, q.yzx + 33.33);
+    return fract((q.xx + q.yz) * q.zy);
+  }
+
+  // Gap between the nearest and second-nearest points of a jittered grid: 0 on cell borders
+  float crackDistance(vec2 p) {
+    vec2 cell = floor(p);
+    vec2 f = fract(p);
+    float d1 = 8.0;
+    float d2 = 8.0;
+    for (int y = -1; y <= 1; y++) {
+      for (int x = -1; x <= 1; x++) {
+        vec2 o = vec2(float(x), float(y));
+        float d = length(o + hash22(cell + o) - f);
+        if (d < d1) { d2 = d1; d1 = d; }
+        else if (d < d2) { d2 = d; }
+      }
+    }
+    return d2 - d1;
+  }
+
   vec2 getCoverUV(vec2 screenUV, vec2 screenRes, vec2 texRes) {
     float screenAspect = screenRes.x / screenRes.y;
     float texAspect = texRes.x / texRes.y;
@@ -214,55 +366,106 @@ const compositeFragmentShader = `
     );
   }
 
+  // getCoverUV, or letterboxed when fit == 1 (contain: uv leaves 0-1 over the bars)
+  vec2 getFitUV(vec2 screenUV, vec2 screenRes, vec2 texRes, int fit) {
+    float s = (screenRes.x / screenRes.y) / (texRes.x / texRes.y);
+    vec2 ratio = fit == 1 ? vec2(max(s, 1.0), max(1.0 / s, 1.0)) : vec2(min(s, 1.0), min(1.0 / s, 1.0));
+    return (screenUV - 0.5) * ratio + 0.5;
+  }
+
+  // Distortion works in webcam image coordinates, where the hands are. Other
+  // backdrops are fitted to the screen on their own (and never mirrored), so
+  // map back through the webcam's cover fit and mirror first.
+  vec3 sampleBackdrop(vec2 imageUV) {
+    if (uBackdropMode == 0) return texture2D(uTexture, imageUV).rgb;
+    vec2 coverUV = vec2(mix(imageUV.x, 1.0 - imageUV.x, uMirror), imageUV.y);
+    vec2 coverOrigin = getCoverUV(vec2(0.0), uResolution, uTextureResolution);
+    vec2 coverSize = getCoverUV(vec2(1.0), uResolution, uTextureResolution) - coverOrigin;
+    vec2 screenUV = (coverUV - coverOrigin) / coverSize;
+    vec2 uv = getFitUV(screenUV, uResolution, uBackdropResolution, uBackdropFit);
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) return vec3(0.0);
+    return texture2D(uBackdrop, uv).rgb;
+  }
+
+  // Inverse of the two-hand pinch transform: which source point lands here
+  vec2 applyViewTransform(vec2 uv, float aspect) {
+    vec2 p = uv - uViewCenter;
+    p.x *= aspect;
+    float c = cos(-uViewRotation);
+    float s = sin(-uViewRotation);
+    p = mat2(c, s, -s, c) * p / uViewScale;
+    p.x /= aspect;
+    return p + uViewCenter - uViewPan;
+  }
+
+  float rippleAt(vec2 uv) {
+    float h = texture2D(uRippleField, uv).r;
+    return uRippleByteRange > 0.0 ? (h * 2.0 - 1.0) * uRippleByteRange : h;
+  }
+
+  ${composeEffectDeclarations(modules)}
+
   void main() {
+    // Torn membrane: nothing left to draw across the gap
+    if (uSurfaceMode == 2 && vMembraneTorn > 0.6) discard;
+
     vec2 coverUV = getCoverUV(vUv, uResolution, uTextureResolution);
-    vec2 mirrorUV = vec2(1.0 - coverUV.x, coverUV.y);
     float textureAspect = uTextureResolution.x / uTextureResolution.y;
+    vec2 mirrorUV = vec2(mix(coverUV.x, 1.0 - coverUV.x, uMirror), coverUV.y);
+    vec2 viewUV = applyViewTransform(mirrorUV, textureAspect);
+
+    // The glass sits in front of the image: moving the head slides it over the backdrop
+    vec2 headShift = uHeadOffset;
+    vec2 glassUV = mirrorUV - headShift * 0.05;
 
-    // --- CALCULATE GEOMETRIC DISTORTION (Ripples + Pinch) ---
+    // --- CALCULATE GEOMETRIC DISTORTION (Effect Modules + Surface) ---
     float totalHeight = 0.0;
     vec2 totalStretch = vec2(0.0);
 
-    for(int i = 0; i < 2; i++) {
-        int gesture = uHandGesture[i];
-        float proximity = uHandZ[i];
-        
-        // Mode 1: Palm (Ripple)
-        if (gesture == 1) {
-            vec2 d = mirrorUV - uHandPos[i];
-            d.x *= textureAspect; 
-            float proxMult = 0.8 + 2.5 * proximity;
-            vec2 warpedPos = d + vec2(
-                snoise(vec3(d * 4.0, uTime * uSpeed + float(i) * 10.0)),
-                snoise(vec3(d * 4.0 + 4.3, uTime * uSpeed + float(i) * 10.0))
-            ) * 0.08 * uDistortionStrength * proxMult;
-            float dist = length(warpedPos);
-            float noisePhase = snoise(vec3(warpedPos * 5.0, uTime * uSpeed * 1.5));
-            float ripple = sin(dist * 12.0 * uRippleStrength - uTime * uSpeed * 4.0 + noisePhase * 2.0);
-            float radius = (0.35 + 0.15 * proximity); 
-            float falloff = smoothstep(radius, radius - 0.25, dist);
-            float core = exp(-dist * 3.5) * uDistortionStrength * 2.0 * proxMult;
-            totalHeight += (ripple * 0.6 * proxMult + core) * falloff * uWaveHeight;
-        }
-        
-        // Mode 2: Pinch (Stretch)
-        vec2 stretchVec = uStretchVector[i];
-        if (length(stretchVec) > 0.001) {
-             vec2 d = mirrorUV - uStretchAnchor[i];
-             d.x *= textureAspect;
-             float dist = length(d);
-             float grabMask = smoothstep(uGrabRadius + uBlendSoftness, uGrabRadius - uBlendSoftness * 0.5, dist);
-             float influence = pow(grabMask, 2.0);
-             totalStretch += stretchVec * influence * (1.0 - uStretchStiffness * 0.5);
-             totalHeight += influence * length(stretchVec) * 2.0;
-        }
+    ${composeEffectChunk(modules, 'surface')}
+
+    // Mode Ripple: palms excite a persistent heightfield, so waves keep travelling
+    float rippleHeight = 0.0;
+    vec2 rippleSlope = vec2(0.0);
+    if (uSurfaceMode == 0) {
+        rippleHeight = rippleAt(glassUV) * uWaveHeight;
+        float l = rippleAt(glassUV - vec2(uRippleTexel.x, 0.0));
+        float r = rippleAt(glassUV + vec2(uRippleTexel.x, 0.0));
+        float b = rippleAt(glassUV - vec2(0.0, uRippleTexel.y));
+        float t = rippleAt(glassUV + vec2(0.0, uRippleTexel.y));
+        // Per-cell central differences, rescaled to per screen pixel like dFdx
+        float imagePixels = max(uResolution.y, uResolution.x / textureAspect);
+        rippleSlope = vec2(r - l, t - b) * 0.5 * uWaveHeight * uRippleGridHeight / imagePixels;
+        rippleSlope.x *= 1.0 - 2.0 * uMirror;
+    }
+
+    // Mode Fluid: the flow drags the image along and dye thickens the glass
+    if (uSurfaceMode == 1) {
+        vec2 flow = texture2D(uFluidVelocity, glassUV).xy;
+        float dye = texture2D(uFluidDye, glassUV).r;
+        totalStretch += flow * 0.05 * uDistortionStrength;
+        totalHeight += (dye + length(flow) * 0.5) * uWaveHeight;
+    }
+
+    // Mode Membrane: the mesh itself carries the image; folds bunch up where it is
+    // compressed, stretched glass thins, and torn edges catch the light
+    if (uSurfaceMode == 2) {
+        totalHeight += (max(-vMembraneStrain, 0.0) * 3.0 + max(vMembraneStrain, 0.0)) * uWaveHeight;
+        totalHeight += smoothstep(0.2, 0.6, vMembraneTorn) * 0.3;
     }
 
-    float dHdx = dFdx(totalHeight) * 1.2;
-    float dHdy = dFdy(totalHeight) * 1.2;
+    // Tension: the whole pane trembles as the hands pull apart
+    totalHeight += uTension * 0.15 * snoise(vec3(glassUV * 3.0, uTime * 2.0));
+
+    // Stretches and tension are evaluated per pixel; the ripple field brings its own gradient
+    float dHdx = (dFdx(totalHeight) + rippleSlope.x) * 1.2;
+    float dHdy = (dFdy(totalHeight) + rippleSlope.y) * 1.2;
+    totalHeight += rippleHeight;
     vec2 normalDistortion = vec2(dHdx, dHdy) * 12.0 * uRefractionIndex;
+    // Viewed off-axis, raised glass bends the backdrop further away from the eye
+    normalDistortion += headShift * totalHeight * 0.08;
     vec2 finalDistortion = normalDistortion + totalStretch;
-    vec2 finalUV = mirrorUV - finalDistortion;
+    vec2 finalUV = viewUV - finalDistortion;
     
     // --- APPLY SMEAR (DIRECTIONAL BLUR) ---
     // Sample smear texture
@@ -280,9 +483,11 @@ const compositeFragmentShader = `
         float totalWeight = 0.0;
         float blurScale = uSmearBleed * 0.02 * smearIntensity; // Scale blur distance
         
-        // 8-tap blur along the smear direction
+        // Up to 8 taps along the smear direction
+        float lastTap = float(uBlurTaps - 1);
         for(int i=0; i<8; i++) {
-            float t = float(i) / 7.0;
+            if (i >= uBlurTaps) break;
+            float t = float(i) / lastTap;
             // Blur backwards along the drag
             vec2 offset = -smearDir * t * blurScale; 
             
@@ -290,106 +495,271 @@ const compositeFragmentShader = `
             float noise = snoise(vec3(finalUV * 50.0, uTime)) * 0.002;
             offset += vec2(noise);
 
-            blurredCol += texture2D(uTexture, finalUV + offset).rgb;
+            blurredCol += sampleBackdrop(finalUV + offset);
             totalWeight += 1.0;
         }
         vec3 muddyColor = blurredCol / totalWeight;
         
         // Mix clean video with muddy video based on intensity
-        vec3 cleanColor = texture2D(uTexture, finalUV).rgb;
+        vec3 cleanColor = sampleBackdrop(finalUV);
         finalColor = mix(cleanColor, muddyColor, min(1.0, smearIntensity * 1.5));
     } else {
         // Standard Chromatic Aberration if no smear
-        float aberration = length(finalDistortion) * 0.03;
-        float r = texture2D(uTexture, finalUV + aberration).r;
-        float g = texture2D(uTexture, finalUV).g;
-        float b = texture2D(uTexture, finalUV - aberration).b;
+        float aberration = length(finalDistortion) * 0.03 * (1.0 + uTension * 4.0);
+        float r = sampleBackdrop(finalUV + aberration).r;
+        float g = sampleBackdrop(finalUV).g;
+        float b = sampleBackdrop(finalUV - aberration).b;
         finalColor = vec3(r, g, b);
     }
 
-    // Highlights
     float curvature = length(vec2(dHdx, dHdy));
+
+    // --- MATERIAL ---
+    finalColor *= uMaterialTint;
+
+    // Frost: light scattered by a rough surface, lifted towards a pale haze
+    if (uFrost > 0.001) {
+        vec3 scattered = vec3(0.0);
+        for (int i = 0; i < 4; i++) {
+            vec2 jitter = hash22(gl_FragCoord.xy + float(i) * 17.0) - 0.5;
+            scattered += sampleBackdrop(finalUV + jitter * 0.02 * uFrost);
+        }
+        vec3 frosted = scattered * 0.25 * uMaterialTint * 0.85 + vec3(0.12, 0.14, 0.16);
+        finalColor = mix(finalColor, frosted, uFrost * 0.8);
+    }
+
+    // Cracks: fixed to the glass, each line refracts and catches a little light
+    if (uCracks > 0.001) {
+        vec2 crackUV = glassUV * vec2(textureAspect, 1.0) * 5.0;
+        float crack = 1.0 - smoothstep(0.0, 0.04, crackDistance(crackUV + snoise(vec3(crackUV * 0.7, 0.0)) * 0.3));
+        vec3 refracted = sampleBackdrop(finalUV + vec2(0.006, -0.004)) * 1.2 + 0.2;
+        finalColor = mix(finalColor, refracted, crack * uCracks);
+    }
+
+    // Metal: reflects the scene as high-contrast greys with hard highlights on every slope
+    if (uMetallic > 0.001) {
+        float luma = dot(finalColor, vec3(0.299, 0.587, 0.114));
+        vec3 chrome = vec3(smoothstep(0.05, 0.9, luma)) * uMaterialTint;
+        chrome += pow(smoothstep(0.0, 0.3, curvature), 2.0) * 0.6;
+        finalColor = mix(finalColor, chrome, uMetallic);
+    }
+
+    // Thin film: colour cycles with the film's thickness, which follows the surface
+    if (uIridescence > 0.001) {
+        float thickness = totalHeight * 2.0 + curvature * 4.0 + snoise(vec3(glassUV * 2.0, uTime * 0.1)) * 0.5;
+        vec3 film = 0.5 + 0.5 * cos(6.2832 * (thickness + vec3(0.0, 0.33, 0.67)));
+        finalColor = mix(finalColor, finalColor * (0.6 + film * 0.9), uIridescence);
+    }
+
+    ${composeEffectChunk(modules, 'color')}
+
+    // Highlights
     float softHighlight = smoothstep(0.02, 0.25, curvature) * uReflectionIntensity;
+    // With a head in view, highlights favour slopes facing a light above the viewer
+    vec2 lightDir = normalize(vec2(0.3, 0.6) + headShift);
+    float directional = 0.6 + 0.8 * max(dot(vec2(dHdx, dHdy) / max(curvature, 1e-5), lightDir), 0.0);
+    softHighlight *= mix(1.0, directional, uHeadPresence);
     finalColor += vec3(0.9, 0.95, 1.0) * softHighlight;
+    // Alpha carries how strongly the glass bends here, for caustics and bloom in post
+    // (the canvas has no alpha channel, so it never shows)
+    float surfaceSignal = smoothstep(0.0, 0.25, curvature);
+
+    // --- EFFECT TARGET (Person Mask) ---
+    // Where the effects must not apply, show the undistorted frame instead
+    if (uMaskMode > 0) {
+        float person = texture2D(uPersonMask, vec2(viewUV.x, 1.0 - viewUV.y)).r;
+        float keepClean = person;
+        if (uMaskMode == 2) keepClean = 1.0 - person;
+        if (uMaskMode == 3) {
+            float nearHand = 0.0;
+            for (int i = 0; i < MAX_HANDS; i++) {
+                if (i >= uHandCount) break;
+                if (uHandActive[i] < 0.5) continue;
+                vec2 d = viewUV - uHandPos[i];
+                d.x *= textureAspect;
+                float radius = 0.18 + 0.12 * uHandZ[i];
+                nearHand = max(nearHand, smoothstep(radius, radius * 0.5, length(d)));
+            }
+            keepClean = person * nearHand;
+        }
+        finalColor = mix(finalColor, sampleBackdrop(viewUV), keepClean);
+        surfaceSignal *= 1.0 - keepClean;
+    }
 
-    gl_FragColor = vec4(finalColor, 1.0);
+    gl_FragColor = vec4(finalColor, surfaceSignal);
   }
 `;
 
-// Helper for Physics
-class HandPhysics {
-  anchorPoint = new THREE.Vector2(0.5, 0.5);
-  currentStretch = new THREE.Vector2(0, 0);
-  velocity = new THREE.Vector2(0, 0);
-  isDragging = false;
-  
-  update(handPos: { x: number, y: number }, gesture: GestureType, params: FluidParams, dt: number) {
-    const targetPos = new THREE.Vector2(handPos.x, 1.0 - handPos.y); 
-
-    if (gesture === 'PINCH') {
-      if (!this.isDragging) {
-        this.isDragging = true;
-        this.anchorPoint.copy(targetPos);
-        this.velocity.set(0, 0);
-        this.currentStretch.set(0, 0); 
-      } else {
-        this.currentStretch.subVectors(targetPos, this.anchorPoint);
-      }
-    } else {
-      this.isDragging = false;
-      const springK = 10.0; 
-      const damping = 5.0 * (1.05 - params.reboundElasticity); 
-      const force = this.currentStretch.clone().multiplyScalar(-springK);
-      const dampingForce = this.velocity.clone().multiplyScalar(-damping);
-      const acceleration = force.add(dampingForce);
-      this.velocity.add(acceleration.multiplyScalar(dt));
-      this.currentStretch.add(this.velocity.clone().multiplyScalar(dt));
-      if (this.currentStretch.lengthSq() < 0.00001 && this.velocity.lengthSq() < 0.0001) {
-        this.currentStretch.set(0, 0);
-        this.velocity.set(0, 0);
-      }
-    }
-  }
-}
+// uSurfaceMode values
+const SURFACE_MODES: Record<SurfaceMode, number> = { ripple: 0, fluid: 1, membrane: 2 };
 
-export const FluidScene: React.FC<FluidSceneProps> = ({ video, params, handDataRef }) => {
-  const { gl } = useThree();
+// uMaskMode values
+const MASK_MODES: Record<SegmentationMode, number> = { everywhere: 0, background: 1, person: 2, hands: 3 };
+
+export const FluidScene: React.FC<FluidSceneProps> = ({ video, params: targetParams, handDataRef, gestureEvents, bimanual, mirror, headParallax, personMask, segmentationMode, surfaceMode, materialId, backdrop, quality, postProcessing, capture }) => {
+  const { gl, size } = useThree();
+  // Best render target format this GPU can draw into (float, half float or bytes)
+  const encoding = useMemo(() => detectFieldEncoding(gl), [gl]);
+
+  // --- QUALITY GOVERNOR ---
+  // DPR is applied by the Canvas owner; the scene handles buffer size and blur taps
+  const [qualityLevel, setQualityLevel] = useState(() => quality.level);
+  useEffect(() => quality.subscribe(state => setQualityLevel(QUALITY_LEVELS[state.level])), [quality]);
   const meshRef = useRef<THREE.Mesh>(null);
-  const physicsRefs = useRef<[HandPhysics, HandPhysics]>([new HandPhysics(), new HandPhysics()]);
+
+  // --- EFFECT MODULES ---
+  // Re-composed whenever the registry changes; the shader is rebuilt to match
+  const [modules, setModules] = useState(() => effectModules.list());
+  useEffect(() => effectModules.subscribe(() => setModules(effectModules.list())), []);
+  const fragmentShader = useMemo(() => createCompositeShader(modules), [modules]);
+  useEffect(() => {
+    const material = meshRef.current?.material as THREE.ShaderMaterial | undefined;
+    if (material) material.needsUpdate = true;
+  }, [fragmentShader]);
+
+  // Each module hears starts and ends of its own gestures only
+  useEffect(() => {
+    const offStart = gestureEvents.on('gestureStart', (e) => {
+      modules.forEach(module => { if (handlesGesture(module, e.gesture)) module.onGestureStart?.(e); });
+    });
+    const offEnd = gestureEvents.on('gestureEnd', (e) => {
+      modules.forEach(module => { if (handlesGesture(module, e.gesture)) module.onGestureEnd?.(e); });
+    });
+    return () => { offStart(); offEnd(); };
+  }, [gestureEvents, modules]);
+  // Modules outlive the scene: leave them at rest when it unmounts or they are swapped out
+  useEffect(() => () => modules.forEach(module => module.reset?.()), [modules]);
+
+  // Clap: wipe the smear and reset every module (applied in the next frame)
+  const clapPendingRef = useRef(false);
+  useEffect(() => bimanual.onClap(() => { clapPendingRef.current = true; }), [bimanual]);
+
+  // --- BACKDROP ---
+  // Loaded asynchronously: the webcam shows while a source loads, and stays if it fails
+  const [backdropSource, setBackdropSource] = useState<BackdropSource | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: BackdropSource | null = null;
+    createBackdropSource(backdrop)
+      .then(source => {
+        if (cancelled) { source?.dispose(); return; }
+        loaded = source;
+        setBackdropSource(source);
+      })
+      .catch(err => {
+        if (!cancelled) console.warn("Backdrop failed to load; refracting the camera instead", err);
+      });
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+      setBackdropSource(null);
+    };
+    // Changing only the fit must not reload the media
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [backdrop.kind, backdrop.media]);
+
+  // --- MATERIAL ---
+  // Params and shading as rendered: they follow the props, but ease over after a preset switch
+  const materialTransition = useMemo(() => new MaterialTransition(getMaterialPreset(materialId)), []);
+  useEffect(() => materialTransition.start(getMaterialPreset(materialId)), [materialId, materialTransition]);
+
+  // Two-hand transform as rendered, eased towards the detector's target
+  const viewRef = useRef({ center: new THREE.Vector2(0.5, 0.5), pan: new THREE.Vector2(0, 0), scale: 1, rotation: 0 });
   
+  // --- WAVE HEIGHTFIELD ---
+  // Palm ripples for the ripple surface; only stepped while that mode is on
+  const waveField = useMemo(() => new WaveHeightfield(video.videoWidth / video.videoHeight || 16 / 9, encoding), [video, encoding]);
+  useEffect(() => () => waveField.dispose(), [waveField]);
+
+  // --- STABLE FLUIDS ---
+  // Sized to the video's aspect; only stepped while the fluid surface is on.
+  // Needs float or half-float targets: on byte-only GPUs the fluid mode falls back to ripples.
+  const fluidSolver = useMemo(() => {
+    if (encoding === 'byte') {
+      console.warn("Float render targets unavailable; the fluid surface falls back to ripples");
+      return null;
+    }
+    return new StableFluidSolver(video.videoWidth / video.videoHeight || 16 / 9, encoding);
+  }, [video, encoding]);
+  useEffect(() => () => fluidSolver?.dispose(), [fluidSolver]);
+
+  // --- MEMBRANE ---
+  // Laid out for the canvas shape (rebuilt when it changes); float targets only, like the fluid
+  const canvasAspect = Math.round((size.width / size.height || 16 / 9) * 20) / 20;
+  const membrane = useMemo(() => {
+    if (encoding === 'byte') {
+      console.warn("Float render targets unavailable; the membrane surface falls back to ripples");
+      return null;
+    }
+    return new MembraneSolver(canvasAspect, encoding);
+  }, [canvasAspect, encoding]);
+  useEffect(() => () => membrane?.dispose(), [membrane]);
+  const membranePinches = useMemo(() => membrane && new MembranePinches(membrane), [membrane]);
+  useEffect(() => {
+    if (!membranePinches) return;
+    const offStart = gestureEvents.on('gestureStart', (e) => { if (e.gesture === 'PINCH') membranePinches.start(e.hand); });
+    const offEnd = gestureEvents.on('gestureEnd', (e) => { if (e.gesture === 'PINCH') membranePinches.end(e.hand); });
+    return () => { offStart(); offEnd(); };
+  }, [gestureEvents, membranePinches]);
+
+  const activeSurface: SurfaceMode =
+    (surfaceMode === 'fluid' && fluidSolver) || (surfaceMode === 'membrane' && membrane) ? surfaceMode : 'ripple';
+
+  // --- PERSON MASK TEXTURE ---
+  // Recreated when the mask size changes; ignored while the pass is off
+  const maskTexture = useRef<THREE.DataTexture | null>(null);
+  const maskVersion = useRef(-1);
+  const uploadMask = (mask: SegmentationMask | null) => {
+    if (!mask) return;
+    const current = maskTexture.current;
+    if (current && current.image.width === mask.width && current.image.height === mask.height) {
+      current.image.data = mask.data;
+      current.needsUpdate = true;
+      return;
+    }
+    current?.dispose();
+    const texture = new THREE.DataTexture(mask.data, mask.width, mask.height, THREE.RedFormat, THREE.UnsignedByteType);
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.unpackAlignment = 1;
+    texture.needsUpdate = true;
+    maskTexture.current = texture;
+  };
+  useEffect(() => () => maskTexture.current?.dispose(), []);
+
   // --- FBO SETUP FOR SMEAR ---
-  const fboRead = useRef<THREE.WebGLRenderTarget | null>(null);
-  const fboWrite = useRef<THREE.WebGLRenderTarget | null>(null);
+  // Direction and intensity are stored in 0..1, so any encoding will do (byte
+  // targets get a minimum decay step in the shader)
+  const smearTarget = useMemo(() => new PingPongTarget(1, 1, { encoding }), [encoding]);
+  useEffect(() => () => smearTarget.dispose(), [smearTarget]);
   const smearScene = useRef(new THREE.Scene());
   const smearCamera = useRef(new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1));
   const smearMaterialRef = useRef<THREE.ShaderMaterial>(null);
 
-  // Initialize FBOs
+  // Follow the canvas size and the governor's resolution scale (reduced res also softens the blur)
   useEffect(() => {
-    const width = window.innerWidth / 2; // Half res for performance & soft blur look
-    const height = window.innerHeight / 2;
-    const options = {
-      minFilter: THREE.LinearFilter,
-      magFilter: THREE.LinearFilter,
-      format: THREE.RGBAFormat,
-      type: THREE.FloatType // Important for negative velocity accumulation? Or just precision
-    };
-    fboRead.current = new THREE.WebGLRenderTarget(width, height, options);
-    fboWrite.current = new THREE.WebGLRenderTarget(width, height, options);
+    const width = Math.max(1, Math.round(size.width * qualityLevel.fboScale));
+    const height = Math.max(1, Math.round(size.height * qualityLevel.fboScale));
+    smearTarget.setSize(width, height);
+    smearMaterialRef.current?.uniforms.uResolution.value.set(width, height);
+  }, [size.width, size.height, qualityLevel, smearTarget]);
 
-    // Setup Smear Scene Quad
+  // Setup Smear Scene Quad
+  useEffect(() => {
     const geometry = new THREE.PlaneGeometry(2, 2);
     const material = new THREE.ShaderMaterial({
       vertexShader,
       fragmentShader: smearFragmentShader,
       uniforms: {
         uLastFrame: { value: null },
-        uResolution: { value: new THREE.Vector2(width, height) },
-        uIndexPos: { value: [new THREE.Vector2(0,0), new THREE.Vector2(0,0)] },
-        uIndexVel: { value: [new THREE.Vector2(0,0), new THREE.Vector2(0,0)] },
+        uResolution: { value: new THREE.Vector2(smearTarget.width, smearTarget.height) },
+        uBrushCount: { value: 0 },
+        uBrushPos: { value: Array.from({ length: MAX_BRUSH_POINTS }, () => new THREE.Vector2()) },
+        uBrushVel: { value: Array.from({ length: MAX_BRUSH_POINTS }, () => new THREE.Vector2()) },
+        uBrushShape: { value: Array.from({ length: MAX_BRUSH_POINTS }, () => new THREE.Vector2()) },
         uDecay: { value: 0.01 },
-        uRadius: { value: 0.1 },
-        uIntensity: { value: 0.5 }
+        uIntensity: { value: 0.5 },
+        uMinDecayStep: { value: 0 }
       }
     });
     smearMaterialRef.current = material;
@@ -397,8 +767,7 @@ export const FluidScene: React.FC<FluidSceneProps> = ({ video, params, handDataR
     smearScene.current.add(mesh);
 
     return () => {
-        fboRead.current?.dispose();
-        fboWrite.current?.dispose();
+        smearScene.current.remove(mesh);
         geometry.dispose();
         material.dispose();
     };
@@ -421,33 +790,68 @@ export const FluidScene: React.FC<FluidSceneProps> = ({ video, params, handDataR
     uTime: { value: 0 },
     
     // Arrays for 2 hands
-    uHandPos: { value: [new THREE.Vector2(0.5, 0.5), new THREE.Vector2(0.5, 0.5)] },
-    uHandGesture: { value: [0, 0] },
-    uHandZ: { value: [0.0, 0.0] },
+    uHandCount: { value: 0 },
+    uHandPos: { value: Array.from({ length: MAX_HANDS }, () => new THREE.Vector2(0.5, 0.5)) },
+    uHandZ: { value: new Array(MAX_HANDS).fill(0.0) },
     
-    uStretchVector: { value: [new THREE.Vector2(0,0), new THREE.Vector2(0,0)] },
-    uStretchAnchor: { value: [new THREE.Vector2(0.5,0.5), new THREE.Vector2(0.5,0.5)] },
 
     // Params
-    uReflectionIntensity: { value: params.reflectionIntensity },
-    uRefractionIndex: { value: params.refractionIndex },
-    uDistortionStrength: { value: params.distortionStrength },
-    uWaveHeight: { value: params.waveHeight },
-    uRippleStrength: { value: params.rippleEffectStrength },
-    uSpeed: { value: params.dynamicSpeed },
+    uReflectionIntensity: { value: targetParams.reflectionIntensity },
+    uRefractionIndex: { value: targetParams.refractionIndex },
+    uDistortionStrength: { value: targetParams.distortionStrength },
+    uWaveHeight: { value: targetParams.waveHeight },
     
-    uGrabRadius: { value: params.grabRadius },
-    uBlendSoftness: { value: params.blendSoftness },
-    uStretchStiffness: { value: params.stretchStiffness },
+    uGrabRadius: { value: targetParams.grabRadius },
+    uBlendSoftness: { value: targetParams.blendSoftness },
+    uStretchStiffness: { value: targetParams.stretchStiffness },
     
-    uSmearBleed: { value: params.colorBleeding },
-  }), [videoTexture, params, video]);
+    uSmearBleed: { value: targetParams.colorBleeding },
+    uBlurTaps: { value: 8 },
+
+    uViewCenter: { value: new THREE.Vector2(0.5, 0.5) },
+    uViewPan: { value: new THREE.Vector2(0, 0) },
+    uViewScale: { value: 1.0 },
+    uViewRotation: { value: 0.0 },
+    uTension: { value: 0.0 },
+    uMirror: { value: 1.0 },
+    uHeadOffset: { value: new THREE.Vector2(0, 0) },
+    uHeadPresence: { value: 0.0 },
+    uSurfaceMode: { value: 0 },
+    uRippleField: { value: null },
+    uRippleTexel: { value: new THREE.Vector2(1, 1) },
+    uRippleGridHeight: { value: 1 },
+    uRippleByteRange: { value: 0 },
+    uFluidVelocity: { value: null },
+    uFluidDye: { value: null },
+    uMembrane: { value: null },
+    uMembraneLinks: { value: null },
+    uMembraneGrid: { value: new THREE.Vector2(2, 2) },
+    uMembraneAspect: { value: 1 },
+    uPersonMask: { value: null },
+    uMaskMode: { value: 0 },
+    uHandActive: { value: new Array(MAX_HANDS).fill(0.0) },
+    uMetallic: { value: 0 },
+    uFrost: { value: 0 },
+    uCracks: { value: 0 },
+    uIridescence: { value: 0 },
+    uMaterialTint: { value: new THREE.Vector3(1, 1, 1) },
+    uBackdrop: { value: null },
+    uBackdropResolution: { value: new THREE.Vector2(1, 1) },
+    uBackdropMode: { value: 0 },
+    uBackdropFit: { value: 0 },
+
+    // Effect modules: which hands hold each module's gestures, plus the module's own uniforms
+    ...Object.fromEntries(modules.map(module => [effectHandsUniform(module.id), { value: new Array(MAX_HANDS).fill(0.0) }])),
+    ...Object.assign({}, ...modules.map(module => module.uniforms ?? {})),
+  }), [videoTexture, targetParams, video, modules]);
 
   useFrame((state, delta) => {
-    if (!meshRef.current || !fboRead.current || !fboWrite.current || !smearMaterialRef.current) return;
+    if (!meshRef.current || !smearMaterialRef.current) return;
+    quality.sample(delta);
     
     const hands = handDataRef.current;
     const material = meshRef.current.material as THREE.ShaderMaterial;
+    const { params, shading } = materialTransition.update(Math.min(delta, 0.1), targetParams);
     
     // ----------------------------
     // 1. UPDATE PHYSICS & UNIFORMS
@@ -456,6 +860,7 @@ export const FluidScene: React.FC<FluidSceneProps> = ({ video, params, handDataR
     material.uniforms.uResolution.value.set(window.innerWidth, window.innerHeight);
     if (video.videoWidth) {
         material.uniforms.uTextureResolution.value.set(video.videoWidth, video.videoHeight);
+        bimanual.aspect = video.videoWidth / video.videoHeight;
     }
     
     // Sync Params
@@ -463,73 +868,214 @@ export const FluidScene: React.FC<FluidSceneProps> = ({ video, params, handDataR
     material.uniforms.uRefractionIndex.value = params.refractionIndex;
     material.uniforms.uDistortionStrength.value = params.distortionStrength;
     material.uniforms.uWaveHeight.value = params.waveHeight;
-    material.uniforms.uRippleStrength.value = params.rippleEffectStrength;
-    material.uniforms.uSpeed.value = params.dynamicSpeed;
     material.uniforms.uGrabRadius.value = params.grabRadius;
     material.uniforms.uBlendSoftness.value = params.blendSoftness;
     material.uniforms.uStretchStiffness.value = params.stretchStiffness;
     material.uniforms.uSmearBleed.value = params.colorBleeding;
+    material.uniforms.uMetallic.value = shading.metallic;
+    material.uniforms.uFrost.value = shading.frost;
+    material.uniforms.uCracks.value = shading.cracks;
+    material.uniforms.uIridescence.value = shading.iridescence;
+    material.uniforms.uMaterialTint.value.fromArray(shading.tint);
 
     const handPosArray = material.uniforms.uHandPos.value as THREE.Vector2[];
-    const handGestureArray = material.uniforms.uHandGesture.value as number[];
     const handZArray = material.uniforms.uHandZ.value as number[];
-    const stretchVecArray = material.uniforms.uStretchVector.value as THREE.Vector2[];
-    const stretchAnchorArray = material.uniforms.uStretchAnchor.value as THREE.Vector2[];
+    const handActiveArray = material.uniforms.uHandActive.value as number[];
+
 
-    // Smear Shader Arrays
-    const smearIndexPosArray = smearMaterialRef.current.uniforms.uIndexPos.value as THREE.Vector2[];
-    const smearIndexVelArray = smearMaterialRef.current.uniforms.uIndexVel.value as THREE.Vector2[];
+    // --- TWO-HAND GESTURES ---
+    const dt = Math.min(delta, 0.1);
+    const twoHand = bimanual.state;
+
+    if (clapPendingRef.current) {
+        clapPendingRef.current = false;
+        modules.forEach(module => module.reset?.());
+        smearTarget.clear(gl);
+        fluidSolver?.clear(gl);
+        waveField.clear(gl);
+        membrane?.clear(gl);
+        membranePinches?.reset();
+    }
 
-    for (let i = 0; i < 2; i++) {
+    // Follow the hands closely while held; spring back to identity on release
+    const view = viewRef.current;
+    const followRate = twoHand.pinchActive ? 20.0 : 2.0 + 8.0 * (1.0 - params.reboundElasticity);
+    const k = 1.0 - Math.exp(-followRate * dt);
+    if (twoHand.pinchActive) view.center.set(twoHand.center.x, 1.0 - twoHand.center.y);
+    // Shader space has y up, so y offsets and rotation flip sign
+    view.pan.lerp(new THREE.Vector2(twoHand.pan.x, -twoHand.pan.y), k);
+    view.scale += (twoHand.scale - view.scale) * k;
+    view.rotation += (-twoHand.rotation - view.rotation) * k;
+
+    material.uniforms.uViewCenter.value.copy(view.center);
+    material.uniforms.uViewPan.value.copy(view.pan);
+    material.uniforms.uViewScale.value = Math.max(view.scale, 0.05);
+    material.uniforms.uViewRotation.value = view.rotation;
+    material.uniforms.uTension.value = twoHand.tension;
+    material.uniforms.uMirror.value = mirror ? 1.0 : 0.0;
+
+    // Closer heads swing the view further
+    const head = headParallax.state;
+    const headScale = head.presence * params.parallaxStrength * (0.5 + head.z);
+    material.uniforms.uHeadOffset.value.set(head.offset.x * headScale, -head.offset.y * headScale);
+    material.uniforms.uHeadPresence.value = head.presence * Math.min(params.parallaxStrength, 1.0);
+
+    // Re-upload the mask only when the segmentation pass delivered a new one
+    if (personMask.version !== maskVersion.current) {
+        maskVersion.current = personMask.version;
+        uploadMask(personMask.mask);
+    }
+    material.uniforms.uPersonMask.value = maskTexture.current;
+    material.uniforms.uMaskMode.value = personMask.mask ? MASK_MODES[segmentationMode] : 0;
+
+    const handCount = Math.min(hands.length, MAX_HANDS);
+    material.uniforms.uHandCount.value = handCount;
+    for (let i = 0; i < handCount; i++) {
         const hand = hands[i];
-        const physics = physicsRefs.current[i];
-        const dt = Math.min(delta, 0.1); 
-        physics.update(hand, hand.gesture, params, dt);
         
         // Main Shader Updates
         handPosArray[i].set(hand.x, 1.0 - hand.y); 
-        let gestureInt = 0;
-        if (hand.gesture === 'PALM') gestureInt = 1;
-        if (hand.gesture === 'PINCH') gestureInt = 2;
-        handGestureArray[i] = gestureInt;
         handZArray[i] = hand.z;
-        stretchVecArray[i].copy(physics.currentStretch);
-        stretchAnchorArray[i].copy(physics.anchorPoint);
-
-        // Smear Shader Updates (Raw values, shader handles coordinate space)
-        smearIndexPosArray[i].set(hand.indexTip.x, hand.indexTip.y);
-        smearIndexVelArray[i].set(hand.indexTip.vx, hand.indexTip.vy);
+        handActiveArray[i] = hand.id !== null ? 1.0 : 0.0;
+        modules.forEach(module => {
+            (material.uniforms[effectHandsUniform(module.id)].value as number[])[i] = handlesGesture(module, hand.gesture) ? 1.0 : 0.0;
+        });
     }
 
+    // Modules step their own physics and write their own uniforms
+    const effectFrame = { hands, params, dt, time: state.clock.elapsedTime, bimanual: twoHand };
+    modules.forEach(module => module.update?.(effectFrame));
+
+    // Smear Shader Updates (Raw values, shader handles coordinate space)
+    // Only gestures with a brush layout paint (POINT, TWO_FINGER, ...)
+    const brushes = smearBrushes.collect(hands, params, dt);
+    const smearUniforms = smearMaterialRef.current.uniforms;
+    const brushPosArray = smearUniforms.uBrushPos.value as THREE.Vector2[];
+    const brushVelArray = smearUniforms.uBrushVel.value as THREE.Vector2[];
+    const brushShapeArray = smearUniforms.uBrushShape.value as THREE.Vector2[];
+    smearUniforms.uBrushCount.value = brushes.length;
+    brushes.forEach((brush, i) => {
+        brushPosArray[i].set(brush.x, brush.y);
+        brushVelArray[i].set(brush.vx, brush.vy);
+        brushShapeArray[i].set(brush.radius, brush.strength);
+    });
+
     // ----------------------------
     // 2. RENDER SMEAR PASS (Ping-Pong)
     // ----------------------------
-    smearMaterialRef.current.uniforms.uLastFrame.value = fboRead.current.texture;
+    smearTarget.prepare(gl);
+    smearMaterialRef.current.uniforms.uLastFrame.value = smearTarget.read.texture;
     smearMaterialRef.current.uniforms.uDecay.value = params.smearDecayTime;
-    smearMaterialRef.current.uniforms.uRadius.value = params.smearRadius;
     smearMaterialRef.current.uniforms.uIntensity.value = params.smearIntensity;
+    smearMaterialRef.current.uniforms.uMinDecayStep.value = encoding === 'byte' ? 1 / 255 : 0;
 
-    gl.setRenderTarget(fboWrite.current);
+    gl.setRenderTarget(smearTarget.write);
     gl.render(smearScene.current, smearCamera.current);
     
     // Swap Buffers
-    const temp = fboRead.current;
-    fboRead.current = fboWrite.current;
-    fboWrite.current = temp;
+    smearTarget.swap();
+
+    // ----------------------------
+    // 3. STEP SURFACE SIMULATION
+    // ----------------------------
+    material.uniforms.uSurfaceMode.value = SURFACE_MODES[activeSurface];
+    if (activeSurface === 'membrane' && membrane && membranePinches) {
+        const videoAspect = video.videoWidth / video.videoHeight || 16 / 9;
+        const screenAspect = window.innerWidth / window.innerHeight;
+        membranePinches.update(hands, dt, (x, y, out) => imageToSurface(x, y, videoAspect, screenAspect, mirror, out));
+        membrane.step(gl, dt, params);
+        material.uniforms.uMembrane.value = membrane.stateTexture;
+        material.uniforms.uMembraneLinks.value = membrane.linksTexture;
+        material.uniforms.uMembraneGrid.value.set(membrane.gridWidth, membrane.gridHeight);
+        material.uniforms.uMembraneAspect.value = membrane.aspect;
+    } else if (activeSurface === 'ripple' || !fluidSolver) {
+        waveField.step(gl, dt, collectWaveSources(modules, hands), params);
+        material.uniforms.uRippleField.value = waveField.texture;
+        material.uniforms.uRippleTexel.value.set(1 / waveField.gridWidth, 1 / waveField.gridHeight);
+        material.uniforms.uRippleGridHeight.value = waveField.gridHeight;
+        material.uniforms.uRippleByteRange.value = waveField.byteRange;
+    } else {
+        fluidSolver.step(gl, dt, collectFluidSplats(hands, params), params);
+        material.uniforms.uFluidVelocity.value = fluidSolver.velocityTexture;
+        material.uniforms.uFluidDye.value = fluidSolver.dyeTexture;
+    }
+
+    // Procedural backdrops draw themselves before the composite samples them
+    backdropSource?.update?.(gl, state.clock.elapsedTime);
+    material.uniforms.uBackdropMode.value = backdropSource ? 1 : 0;
+    material.uniforms.uBackdrop.value = backdropSource?.texture ?? null;
+    material.uniforms.uBackdropResolution.value.set(backdropSource?.width ?? 1, backdropSource?.height ?? 1);
+    material.uniforms.uBackdropFit.value = backdrop.fit === 'contain' ? 1 : 0;
 
     // ----------------------------
-    // 3. RENDER MAIN SCENE
+    // 4. RENDER MAIN SCENE
     // ----------------------------
     gl.setRenderTarget(null);
-    material.uniforms.uSmearTexture.value = fboRead.current.texture;
+    material.uniforms.uSmearTexture.value = smearTarget.read.texture;
+    material.uniforms.uBlurTaps.value = qualityLevel.blurTaps;
   });
 
+  // ----------------------------
+  // 5. POST-PROCESSING
+  // ----------------------------
+  // Taking over the render loop: the composite goes offscreen and the pass chain draws to the screen
+  const drawingBufferSize = useRef(new THREE.Vector2());
+  useEffect(() => () => postProcessing.dispose(), [postProcessing]);
+  const renderFrame = (state: RootState) => {
+    if (!postProcessing.hasEnabledPasses) {
+        gl.setRenderTarget(null);
+        gl.render(state.scene, state.camera);
+        return;
+    }
+    gl.getDrawingBufferSize(drawingBufferSize.current);
+    const { x: width, y: height } = drawingBufferSize.current;
+    const type = encoding === 'byte' ? THREE.UnsignedByteType : THREE.HalfFloatType;
+    const input = postProcessing.getInputTarget(width, height, type);
+    gl.setRenderTarget(input);
+    gl.render(state.scene, state.camera);
+    postProcessing.render(gl, input, state.clock.elapsedTime);
+    gl.setRenderTarget(null);
+  };
+
+  // --- CAPTURE ---
+  useEffect(() => {
+    capture.attachCanvas(gl.domElement);
+    return () => capture.attachCanvas(null);
+  }, [capture, gl]);
+
+  useFrame((state) => {
+    renderFrame(state);
+
+    const stillScale = capture.requestedStillScale;
+    if (stillScale === null) return;
+    if (stillScale === 1) {
+      capture.resolveStill();
+      return;
+    }
+    // Upscaled: draw this frame again into a bigger drawing buffer (within what
+    // the GPU allows), encode it, then restore the screen's size and picture
+    gl.getDrawingBufferSize(drawingBufferSize.current);
+    const maxSize = gl.capabilities.maxTextureSize;
+    const scale = Math.min(stillScale, maxSize / drawingBufferSize.current.x, maxSize / drawingBufferSize.current.y);
+    const pixelRatio = gl.getPixelRatio();
+    gl.setPixelRatio(pixelRatio * scale);
+    renderFrame(state);
+    capture.resolveStill();
+    gl.setPixelRatio(pixelRatio);
+    renderFrame(state);
+  }, 1);
+
+  // The membrane needs a vertex per node; every other surface is one quad
+  const [segmentsX, segmentsY] = activeSurface === 'membrane' && membrane
+    ? [membrane.gridWidth - 1, membrane.gridHeight - 1]
+    : [1, 1];
+
   return (
     <mesh ref={meshRef}>
-      <planeGeometry args={[2, 2]} />
+      <planeGeometry args={[2, 2, segmentsX, segmentsY]} />
       <shaderMaterial
-        vertexShader={vertexShader}
-        fragmentShader={compositeFragmentShader}
+        vertexShader={compositeVertexShader}
+        fragmentShader={fragmentShader}
         uniforms={uniforms}
         depthTest={false}
         depthWrite={false}
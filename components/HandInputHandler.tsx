@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { HandData } from '../types';
+import { HandInputSource, RawHandFrame } from '../services/HandInputSource';
+import { LandmarkerInfo } from '../services/mediapipeAssets';
+
+interface HandInputHandlerProps {
+  source: HandInputSource;
+  onVideoReady: (video: HTMLVideoElement) => void;
+  onHandUpdate: (data: HandData, raw?: RawHandFrame) => void;
+  onError: (error: Error) => void;
+  onDetectorReady?: (info: LandmarkerInfo) => void;
+}
+
+// Headless bridge between a HandInputSource and React: starts it on mount
+// (or when the source changes) and stops it on unmount.
+export const HandInputHandler: React.FC<HandInputHandlerProps> = ({ source, onVideoReady, onHandUpdate, onError, onDetectorReady }) => {
+  // Latest callbacks without restarting the source when the parent re-renders
+  const callbacksRef = useRef({ onVideoReady, onHandUpdate, onError, onDetectorReady });
+  callbacksRef.current = { onVideoReady, onHandUpdate, onError, onDetectorReady };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    source
+      .start(
+        (data, raw) => { if (isMounted) callbacksRef.current.onHandUpdate(data, raw); },
+        (err) => { if (isMounted) callbacksRef.current.onError(err); },
+        (info) => { if (isMounted) callbacksRef.current.onDetectorReady?.(info); }
+      )
+      .then((video) => {
+        if (isMounted) callbacksRef.current.onVideoReady(video);
+      })
+      .catch((err) => {
+        console.error("Error starting hand input:", err);
+        if (isMounted) callbacksRef.current.onError(err instanceof Error ? err : new Error(String(err)));
+      });
+
+    return () => {
+      isMounted = false;
+      source.stop();
+    };
+  }, [source]);
+
+  return null;
+};
@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { Camera, Film, Sparkles } from 'lucide-react';
+import { MAX_HANDS } from '../types';
+import { HandInputKind } from '../services/HandInputSource';
+import { HandInputConfig } from '../services/createHandInputSource';
+
+interface InputSourcePickerProps {
+  activeKind: HandInputKind;
+  onSelect: (config: HandInputConfig) => void;
+  // Omit to hide the hand count selector
+  handCount?: number;
+  onHandCountChange?: (count: number) => void;
+}
+
+export const InputSourcePicker: React.FC<InputSourcePickerProps> = ({ activeKind, onSelect, handCount, onHandCountChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const options: { kind: HandInputKind; label: string; icon: React.ReactNode }[] = [
+    { kind: 'webcam', label: 'Camera', icon: <Camera className="w-3 h-3" /> },
+    { kind: 'video-file', label: 'Video', icon: <Film className="w-3 h-3" /> },
+    { kind: 'synthetic', label: 'Synthetic', icon: <Sparkles className="w-3 h-3" /> },
+  ];
+
+  const handleClick = (kind: HandInputKind) => {
+    if (kind === 'video-file') {
+      fileInputRef.current?.click();
+    } else {
+      onSelect({ kind });
+    }
+  };
+
+  return (
+    <div className="flex gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 w-fit">
+      {options.map(({ kind, label, icon }) => (
+        <button
+          key={kind}
+          onClick={() => handleClick(kind)}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+            activeKind === kind ? 'bg-white text-black' : 'text-white/60 hover:bg-white/10'
+          }`}
+        >
+          {icon} {label}
+        </button>
+      ))}
+      {handCount !== undefined && onHandCountChange && (
+        <select
+          value={handCount}
+          onChange={(e) => onHandCountChange(parseInt(e.target.value, 10))}
+          className="bg-transparent text-[10px] text-white/60 uppercase tracking-wider outline-none px-2"
+          title="Hands tracked at once"
+        >
+          {Array.from({ length: MAX_HANDS }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count} {count === 1 ? 'hand' : 'hands'}</option>
+          ))}
+        </select>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onSelect({ kind: 'video-file', media: file });
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Gem } from 'lucide-react';
+import { MATERIAL_PRESETS, MaterialId } from '../services/MaterialPresets';
+
+interface MaterialPickerProps {
+  materialId: MaterialId;
+  onChange: (id: MaterialId) => void;
+}
+
+export const MaterialPicker: React.FC<MaterialPickerProps> = ({ materialId, onChange }) => {
+  return (
+    <div className="flex items-center gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 w-fit" title="Material (or show a shaka to cycle)">
+      <Gem className="w-3 h-3 text-cyan-400 mx-2" />
+      {MATERIAL_PRESETS.map(preset => {
+        const [r, g, b] = preset.shading.tint;
+        return (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.id)}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+              materialId === preset.id ? 'bg-white text-black' : 'text-white/60 hover:bg-white/10'
+            }`}
+          >
+            <span
+              className="w-2 h-2 rounded-full border border-black/20"
+              style={{ backgroundColor: `rgb(${Math.min(r, 1) * 255}, ${Math.min(g, 1) * 255}, ${Math.min(b, 1) * 255})` }}
+            />
+            {preset.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
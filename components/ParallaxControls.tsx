@@ -0,0 +1,37 @@
+import React from 'react';
+import { ScanFace } from 'lucide-react';
+
+interface ParallaxControlsProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  strength: number;
+  onStrengthChange: (strength: number) => void;
+}
+
+export const ParallaxControls: React.FC<ParallaxControlsProps> = ({ enabled, onToggle, strength, onStrengthChange }) => {
+  return (
+    <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 pr-3 w-fit">
+      <button
+        onClick={() => onToggle(!enabled)}
+        className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+          enabled ? 'bg-white/20 text-white' : 'text-white/50 hover:bg-white/10'
+        }`}
+        title="Track your head to give the glass depth (loads a face model)"
+      >
+        <ScanFace className="w-3 h-3" /> Parallax
+      </button>
+      {enabled && (
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.05}
+          value={strength}
+          onChange={(e) => onStrengthChange(parseFloat(e.target.value))}
+          className="w-24 accent-cyan-400"
+          title="Parallax strength"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal } from 'lucide-react';
+import { PostProcessingChain } from '../services/PostProcessing';
+
+interface PostProcessingPanelProps {
+  chain: PostProcessingChain;
+}
+
+export const PostProcessingPanel: React.FC<PostProcessingPanelProps> = ({ chain }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The chain is mutable; re-render whenever it reports a change
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  useEffect(() => chain.subscribe(refresh), [chain]);
+
+  const passes = chain.list();
+  const enabledCount = passes.filter(pass => pass.enabled).length;
+
+  return (
+    <div className="flex flex-col gap-2 w-fit">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`self-start flex items-center gap-1.5 bg-black/40 backdrop-blur-md border border-white/10 rounded-full px-3 py-1.5 text-[10px] uppercase tracking-wider transition-colors ${
+          isOpen ? 'text-white bg-white/10' : 'text-white/80 hover:bg-white/10'
+        }`}
+        title="Post-processing passes, applied top to bottom"
+      >
+        <SlidersHorizontal className="w-3 h-3 text-cyan-400" />
+        Post FX<span className="text-white/40 normal-case">· {enabledCount}/{passes.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="w-64 bg-black/70 backdrop-blur-xl border border-white/10 rounded-2xl p-3 space-y-3 max-h-[50vh] overflow-y-auto custom-scrollbar">
+          {passes.map((pass, index) => (
+            <div key={pass.id} className="space-y-2">
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => chain.setEnabled(pass.id, !pass.enabled)}
+                  className={`flex-1 text-left px-2 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+                    pass.enabled ? 'bg-white/20 text-white' : 'text-white/40 hover:bg-white/10'
+                  }`}
+                >
+                  {pass.label}
+                </button>
+                <button
+                  onClick={() => chain.move(pass.id, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded-full text-white/60 hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent"
+                  title="Run earlier"
+                >
+                  <ChevronUp className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => chain.move(pass.id, 1)}
+                  disabled={index === passes.length - 1}
+                  className="p-1 rounded-full text-white/60 hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent"
+                  title="Run later"
+                >
+                  <ChevronDown className="w-3 h-3" />
+                </button>
+              </div>
+
+              {pass.enabled && pass.paramSpecs.map(spec => (
+                <label key={spec.key} className="flex items-center gap-2 pl-2 text-[9px] uppercase tracking-wider text-white/60">
+                  <span className="w-20 shrink-0">{spec.label}</span>
+                  <input
+                    type="range"
+                    min={spec.min}
+                    max={spec.max}
+                    step={spec.step}
+                    value={pass.params[spec.key]}
+                    onChange={(e) => chain.setParam(pass.id, spec.key, parseFloat(e.target.value))}
+                    className="flex-1 accent-cyan-400"
+                  />
+                  <span className="w-8 text-right font-mono text-cyan-200/80 normal-case">{pass.params[spec.key].toFixed(2)}</span>
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React, { useEffect, useState } from 'react';
+import { QUALITY_LEVELS, QualityGovernor, QualityState } from '../services/QualityGovernor';
+
+interface QualityIndicatorProps {
+  quality: QualityGovernor;
+}
+
+// Current quality level and frame rate; refreshed about once a second
+export const QualityIndicator: React.FC<QualityIndicatorProps> = ({ quality }) => {
+  const [state, setState] = useState<QualityState>(() => quality.getState());
+  useEffect(() => quality.subscribe(setState), [quality]);
+  const level = QUALITY_LEVELS[state.level];
+
+  return (
+    <div
+      className="absolute bottom-4 right-6 text-[9px] font-mono text-white/40 uppercase tracking-wider"
+      title={`Target ${quality.options.targetFps} fps · DPR ${level.dpr} · smear ${level.fboScale}× · ${level.blurTaps} blur taps`}
+    >
+      <span className={state.level === 0 ? 'text-cyan-400/70' : 'text-yellow-400/70'}>{level.name}</span>
+      {' · '}{Math.round(state.averageFps)} fps
+    </div>
+  );
+};
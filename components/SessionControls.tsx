@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Square, Play, Pause, Repeat, Upload, X } from 'lucide-react';
+import { HandInputKind } from '../services/HandInputSource';
+import { SessionRecorder } from '../services/SessionRecorder';
+import { SessionPlayer, SessionPlayerState } from '../services/SessionPlayer';
+import { HandSession, parseSession, serializeSession, serializeSessionNdjson } from '../services/sessionFormat';
+import { downloadBlob } from '../services/CanvasCapture';
+
+interface SessionControlsProps {
+  recorder: SessionRecorder;
+  player: SessionPlayer;
+  inputKind: HandInputKind;
+}
+
+type ExportFormat = 'json' | 'ndjson';
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+const downloadSession = (session: HandSession, format: ExportFormat) => {
+  const text = format === 'json' ? serializeSession(session) : serializeSessionNdjson(session);
+  const blob = new Blob([text], { type: format === 'json' ? 'application/json' : 'application/x-ndjson' });
+  downloadBlob(blob, `hand-session-${session.createdAt.replace(/[:.]/g, '-')}.${format}`);
+};
+
+const formatTime = (ms: number) => {
+  const s = ms / 1000;
+  return `${Math.floor(s / 60)}:${(s % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export const SessionControls: React.FC<SessionControlsProps> = ({ recorder, player, inputKind }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [includeRaw, setIncludeRaw] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [playerState, setPlayerState] = useState<SessionPlayerState>(() => player.getState());
+  const [isDragging, setIsDragging] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => player.subscribe(setPlayerState), [player]);
+
+  const importFile = async (file: File) => {
+    try {
+      const session = parseSession(await file.text());
+      setImportError(null);
+      player.load(session);
+      player.play();
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Drag-and-drop anywhere on the page
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDragging(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (e.relatedTarget === null) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const file = e.dataTransfer?.files[0];
+      if (file) importFile(file);
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [player]);
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      const session = recorder.stop();
+      if (session.frames.length) downloadSession(session, format);
+      setIsRecording(false);
+    } else {
+      recorder.start(inputKind, { includeRaw });
+      setIsRecording(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-64">
+      {isDragging && (
+        <div className="fixed inset-0 z-50 border-2 border-dashed border-cyan-400/60 bg-black/60 flex items-center justify-center pointer-events-none">
+          <p className="text-cyan-200 text-sm tracking-widest uppercase">Drop session to replay</p>
+        </div>
+      )}
+
+      {/* Record */}
+      <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 pr-3">
+        <button
+          onClick={toggleRecording}
+          disabled={playerState.isLoaded}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider text-white/80 hover:bg-white/10 transition-colors disabled:opacity-30"
+        >
+          {isRecording
+            ? <><Square className="w-3 h-3 text-red-400 fill-red-400" /> Stop</>
+            : <><Circle className="w-3 h-3 text-red-400" /> Rec</>}
+        </button>
+        <label className="flex items-center gap-1 text-[9px] text-white/50 uppercase tracking-wider">
+          <input type="checkbox" checked={includeRaw} disabled={isRecording} onChange={(e) => setIncludeRaw(e.target.checked)} />
+          Raw
+        </label>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="bg-transparent text-[9px] text-white/50 uppercase tracking-wider outline-none"
+        >
+          <option value="json">JSON</option>
+          <option value="ndjson">NDJSON</option>
+        </select>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="ml-auto p-1 hover:bg-white/10 rounded-full transition-colors"
+          title="Import session"
+        >
+          <Upload className="w-3 h-3 text-white/60" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.ndjson,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {importError && <p className="text-red-300/80 text-[10px] font-mono">{importError}</p>}
+
+      {/* Replay */}
+      {playerState.isLoaded && (
+        <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => (playerState.isPlaying ? player.pause() : player.play())}
+              className="p-1 hover:bg-white/10 rounded-full transition-colors"
+            >
+              {playerState.isPlaying ? <Pause className="w-3 h-3 text-white" /> : <Play className="w-3 h-3 text-white" />}
+            </button>
+            <span className="text-[10px] font-mono text-cyan-200/80">
+              {formatTime(playerState.position)} / {formatTime(playerState.duration)}
+            </span>
+            <select
+              value={playerState.speed}
+              onChange={(e) => player.setSpeed(parseFloat(e.target.value))}
+              className="ml-auto bg-transparent text-[10px] text-white/60 outline-none"
+            >
+              {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+            </select>
+            <button
+              onClick={() => player.setLoop(!playerState.loop)}
+              className={`p-1 rounded-full transition-colors ${playerState.loop ? 'bg-white/20' : 'hover:bg-white/10'}`}
+            >
+              <Repeat className="w-3 h-3 text-white/80" />
+            </button>
+            <button onClick={() => player.unload()} className="p-1 hover:bg-white/10 rounded-full transition-colors" title="Back to live input">
+              <X className="w-3 h-3 text-white/60" />
+            </button>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={playerState.duration}
+            step={1}
+            value={playerState.position}
+            onChange={(e) => player.seek(parseFloat(e.target.value))}
+            className="w-full accent-cyan-400"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
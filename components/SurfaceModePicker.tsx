@@ -0,0 +1,32 @@
+import React from 'react';
+import { Droplets, Grid3x3, Waves } from 'lucide-react';
+import { SurfaceMode } from '../types';
+
+interface SurfaceModePickerProps {
+  mode: SurfaceMode;
+  onChange: (mode: SurfaceMode) => void;
+}
+
+export const SurfaceModePicker: React.FC<SurfaceModePickerProps> = ({ mode, onChange }) => {
+  const options: { mode: SurfaceMode; label: string; icon: React.ReactNode }[] = [
+    { mode: 'ripple', label: 'Ripple', icon: <Waves className="w-3 h-3" /> },
+    { mode: 'fluid', label: 'Fluid', icon: <Droplets className="w-3 h-3" /> },
+    { mode: 'membrane', label: 'Membrane', icon: <Grid3x3 className="w-3 h-3" /> },
+  ];
+
+  return (
+    <div className="flex gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-1 w-fit" title="How hands deform the glass">
+      {options.map(option => (
+        <button
+          key={option.mode}
+          onClick={() => onChange(option.mode)}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] uppercase tracking-wider transition-colors ${
+            mode === option.mode ? 'bg-white text-black' : 'text-white/60 hover:bg-white/10'
+          }`}
+        >
+          {option.icon} {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
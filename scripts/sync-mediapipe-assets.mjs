@@ -0,0 +1,59 @@
+// Copies the MediaPipe wasm fileset out of node_modules and downloads the
+// hand/face landmarker and selfie segmenter models into public/mediapipe/, so dev and build
+// serve every vision asset from our own origin. Runs before `dev` and `build`.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const wasmSource = path.join(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+const target = path.join(root, 'public/mediapipe');
+
+// Keep in sync with HAND_MODEL / FACE_MODEL / SEGMENTER_MODEL in services/mediapipeAssets.ts.
+// Optional models only back opt-in features, so failing to fetch one is not fatal.
+const MODELS = [
+  {
+    file: 'hand_landmarker.task',
+    url: process.env.MEDIAPIPE_MODEL_URL
+      ?? 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+  },
+  {
+    file: 'face_landmarker.task',
+    optional: true,
+    url: process.env.MEDIAPIPE_FACE_MODEL_URL
+      ?? 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task'
+  },
+  {
+    file: 'selfie_segmenter.tflite',
+    optional: true,
+    url: process.env.MEDIAPIPE_SEGMENTER_MODEL_URL
+      ?? 'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/1/selfie_segmenter.tflite'
+  },
+];
+
+const exists = (file) => stat(file).then(() => true, () => false);
+
+await mkdir(path.join(target, 'wasm'), { recursive: true });
+for (const file of await readdir(wasmSource)) {
+  await copyFile(path.join(wasmSource, file), path.join(target, 'wasm', file));
+}
+
+for (const { file, url, optional } of MODELS) {
+  const modelPath = path.join(target, 'models', file);
+  if (await exists(modelPath)) {
+    console.log(`mediapipe: using cached ${path.relative(root, modelPath)}`);
+    continue;
+  }
+  console.log(`mediapipe: downloading ${url}`);
+  const response = await fetch(url).catch((err) => ({ ok: false, status: err.cause?.code ?? err.message }));
+  if (!response.ok) {
+    if (optional) {
+      console.warn(`mediapipe: optional model download failed (${response.status}); its feature stays unavailable until ${file} is in public/mediapipe/models/.`);
+      continue;
+    }
+    console.error(`mediapipe: model download failed (${response.status}). Place ${file} in public/mediapipe/models/ manually.`);
+    process.exit(1);
+  }
+  await mkdir(path.dirname(modelPath), { recursive: true });
+  await writeFile(modelPath, Buffer.from(await response.arrayBuffer()));
+}
@@ -0,0 +1,184 @@
+import * as THREE from 'three';
+import { FullscreenPass, createPassMaterial } from './PingPongTarget';
+
+/**
+ * What the glass refracts, independent of the tracking input:
+ * - camera: the tracking video itself (the original behaviour)
+ * - image: a still picture
+ * - video: a looping, muted video file
+ * - procedural: a built-in animated shader
+ */
+export type BackdropKind = 'camera' | 'image' | 'video' | 'procedural';
+
+/**
+ * How a non-camera backdrop fills the screen. `cover` crops like the camera
+ * view does (getCoverUV); `contain` shows all of it with black bars.
+ */
+export type BackdropFit = 'cover' | 'contain';
+
+export interface BackdropConfig {
+  kind: BackdropKind;
+  fit: BackdropFit;
+  // Image and video backdrops: a picked file or a URL
+  media?: File | string;
+}
+
+export const DEFAULT_BACKDROP: BackdropConfig = { kind: 'camera', fit: 'cover' };
+
+/** A loaded backdrop. Procedural backdrops redraw themselves in update(). */
+export interface BackdropSource {
+  readonly texture: THREE.Texture;
+  readonly width: number;
+  readonly height: number;
+  update?(renderer: THREE.WebGLRenderer, time: number): void;
+  dispose(): void;
+}
+
+/** Reads `?backdrop=procedural` or `?backdrop=<image or video URL>`, plus `?fit=contain`. */
+export const readBackdropFromUrl = (search = window.location.search): BackdropConfig => {
+  const query = new URLSearchParams(search);
+  const fit: BackdropFit = query.get('fit') === 'contain' ? 'contain' : 'cover';
+  const backdrop = query.get('backdrop');
+  if (!backdrop || backdrop === 'camera') return { kind: 'camera', fit };
+  if (backdrop === 'procedural') return { kind: 'procedural', fit };
+  return { kind: /\.(mp4|webm|ogv|mov)(\?|#|$)/i.test(backdrop) ? 'video' : 'image', fit, media: backdrop };
+};
+
+const mediaUrl = (media: File | string) => typeof media === 'string' ? media : URL.createObjectURL(media);
+
+const releaseUrl = (media: File | string, url: string) => {
+  if (typeof media !== 'string') URL.revokeObjectURL(url);
+};
+
+const loadImageBackdrop = async (media: File | string): Promise<BackdropSource> => {
+  const url = mediaUrl(media);
+  try {
+    const texture = await new THREE.TextureLoader().loadAsync(url);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    const image = texture.image as HTMLImageElement;
+    return {
+      texture,
+      width: image.naturalWidth || image.width,
+      height: image.naturalHeight || image.height,
+      dispose: () => texture.dispose(),
+    };
+  } finally {
+    // The decoded image stays on the texture; the URL is no longer needed
+    releaseUrl(media, url);
+  }
+};
+
+const loadVideoBackdrop = async (media: File | string): Promise<BackdropSource> => {
+  const url = mediaUrl(media);
+  const video = document.createElement('video');
+  video.src = url;
+  video.crossOrigin = 'anonymous';
+  video.loop = true;
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error(`Could not load backdrop video: ${video.error?.message ?? url}`));
+    });
+    await video.play();
+  } catch (err) {
+    video.removeAttribute('src');
+    releaseUrl(media, url);
+    throw err;
+  }
+
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  return {
+    texture,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    dispose: () => {
+      texture.dispose();
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      releaseUrl(media, url);
+    },
+  };
+};
+
+// Slow, high-contrast bands and a fine grid: detailed enough that every ripple shows
+const proceduralShader = `
+  uniform float uTime;
+  uniform vec2 uResolution;
+  varying vec2 vUv;
+
+  void main() {
+    vec2 p = (vUv - 0.5) * vec2(uResolution.x / uResolution.y, 1.0);
+    float t = uTime * 0.15;
+
+    // Domain-warped bands
+    vec2 q = p;
+    q += 0.25 * vec2(sin(q.y * 3.0 + t * 2.0), cos(q.x * 2.5 - t * 1.7));
+    q += 0.12 * vec2(sin(q.y * 7.0 - t * 3.0), cos(q.x * 6.0 + t * 2.3));
+    float bands = sin(q.x * 6.0 + q.y * 4.0 + t * 4.0);
+
+    vec3 deep = vec3(0.02, 0.05, 0.12);
+    vec3 teal = vec3(0.0, 0.55, 0.65);
+    vec3 amber = vec3(0.95, 0.55, 0.2);
+    vec3 color = mix(deep, teal, smoothstep(-0.6, 0.4, bands));
+    color = mix(color, amber, smoothstep(0.75, 0.98, bands));
+
+    // Thin grid lines that bend visibly under the glass
+    vec2 grid = abs(fract(p * 12.0) - 0.5);
+    float line = 1.0 - smoothstep(0.0, 0.04, min(grid.x, grid.y));
+    color += line * 0.12;
+
+    gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+class ProceduralBackdrop implements BackdropSource {
+  readonly width = 1280;
+  readonly height = 720;
+  private target = new THREE.WebGLRenderTarget(this.width, this.height, { depthBuffer: false });
+  private screen = new FullscreenPass();
+  private material = createPassMaterial(proceduralShader, {
+    uTime: { value: 0 },
+    uResolution: { value: new THREE.Vector2(this.width, this.height) },
+  });
+
+  get texture() {
+    return this.target.texture;
+  }
+
+  update(renderer: THREE.WebGLRenderer, time: number) {
+    const previousTarget = renderer.getRenderTarget();
+    this.material.uniforms.uTime.value = time;
+    this.screen.render(renderer, this.material, this.target);
+    renderer.setRenderTarget(previousTarget);
+  }
+
+  dispose() {
+    this.target.dispose();
+    this.screen.dispose();
+    this.material.dispose();
+  }
+}
+
+/** Loads the backdrop; null means refract the camera. Rejects when the media cannot be loaded. */
+export const createBackdropSource = async (config: BackdropConfig): Promise<BackdropSource | null> => {
+  switch (config.kind) {
+    case 'camera':
+      return null;
+    case 'procedural':
+      return new ProceduralBackdrop();
+    case 'image':
+    case 'video':
+      if (!config.media) throw new Error(`A ${config.kind} backdrop needs a file or URL`);
+      return config.kind === 'image' ? loadImageBackdrop(config.media) : loadVideoBackdrop(config.media);
+  }
+};
@@ -0,0 +1,182 @@
+import { HandData, HandPoint } from '../types';
+
+/** Two-hand state derived from each frame. Positions are in image space (0-1, y down). */
+export interface BimanualState {
+  // Both hands pinching: scale/rotate the surface around their midpoint
+  pinchActive: boolean;
+  center: { x: number, y: number };   // current midpoint (the pivot)
+  pan: { x: number, y: number };      // midpoint travel since the grab
+  scale: number;                      // current / initial hand separation
+  rotation: number;                   // radians, image space, aspect-corrected
+  // 0-1, builds up as two tracked hands are pulled apart
+  tension: number;
+}
+
+export interface BimanualOptions {
+  clapDistance: number;      // hand centres closer than this count as touching
+  clapApproach: number;      // ...having been at least this far apart
+  clapWindowMs: number;      // ...within this window
+  clapCooldownMs: number;
+  tensionRest: number;       // separation where tension starts
+  tensionMax: number;        // separation where tension saturates
+  tensionAttack: number;     // seconds
+  tensionRelease: number;    // seconds
+}
+
+export const DEFAULT_BIMANUAL_OPTIONS: BimanualOptions = {
+  clapDistance: 0.1,
+  clapApproach: 0.25,
+  clapWindowMs: 500,
+  clapCooldownMs: 800,
+  tensionRest: 0.3,
+  tensionMax: 0.85,
+  tensionAttack: 0.15,
+  tensionRelease: 0.6,
+};
+
+export type ClapListener = (timestamp: number) => void;
+
+const createIdleState = (): BimanualState => ({
+  pinchActive: false,
+  center: { x: 0.5, y: 0.5 },
+  pan: { x: 0, y: 0 },
+  scale: 1,
+  rotation: 0,
+  tension: 0,
+});
+
+// Which two hands form the pair this frame. With more than two hands in
+// view: the first two pinching hands, otherwise the two closest together.
+const selectPair = (hands: HandData, aspect: number): [HandPoint, HandPoint] | null => {
+  const tracked = hands.filter(hand => hand.id !== null);
+  if (tracked.length < 2) return null;
+
+  const pinching = tracked.filter(hand => hand.gesture === 'PINCH');
+  if (pinching.length >= 2) return [pinching[0], pinching[1]];
+
+  let best: [HandPoint, HandPoint] | null = null;
+  let bestDistance = Infinity;
+  for (let i = 0; i < tracked.length; i++) {
+    for (let j = i + 1; j < tracked.length; j++) {
+      const d = Math.hypot((tracked[j].x - tracked[i].x) * aspect, tracked[j].y - tracked[i].y);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = [tracked[i], tracked[j]];
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Recognises gestures that need both hands: a two-hand pinch that scales
+ * and rotates the surface, a clap, and pull-apart tension. Fed the same
+ * frames as GestureEventBus; consumers read `state` every render frame and
+ * subscribe to claps. With more than two hands in view one pair drives it
+ * (see selectPair).
+ */
+export class BimanualGestureDetector {
+  state: BimanualState = createIdleState();
+  /** Width/height of the tracked image, so rotation and separation are not skewed. */
+  aspect = 16 / 9;
+
+  private grab: { separation: number, angle: number, center: { x: number, y: number } } | null = null;
+  private recentSeparations: { t: number, d: number }[] = [];
+  private pairKey = '';
+  private lastClap = -Infinity;
+  private lastUpdate = 0;
+  private clapListeners = new Set<ClapListener>();
+
+  constructor(private options: BimanualOptions = DEFAULT_BIMANUAL_OPTIONS) {}
+
+  onClap(listener: ClapListener) {
+    this.clapListeners.add(listener);
+    return () => { this.clapListeners.delete(listener); };
+  }
+
+  reset() {
+    this.state = createIdleState();
+    this.grab = null;
+    this.recentSeparations = [];
+    this.pairKey = '';
+  }
+
+  update(hands: HandData, now = performance.now()) {
+    const dt = this.lastUpdate ? Math.min((now - this.lastUpdate) / 1000, 0.1) : 0;
+    this.lastUpdate = now;
+
+    const pair = selectPair(hands, this.aspect);
+    const bothTracked = pair !== null;
+    const [a, b] = pair ?? [hands[0], hands[1] ?? hands[0]];
+
+    // A different pair takes over: its history says nothing about a clap
+    const pairKey = pair ? `${a.id}:${b.id}` : '';
+    if (pairKey !== this.pairKey) {
+      this.pairKey = pairKey;
+      this.recentSeparations = [];
+      this.grab = null;
+    }
+
+    const dx = (b.x - a.x) * this.aspect;
+    const dy = b.y - a.y;
+    const separation = Math.hypot(dx, dy);
+
+    this.updatePinch(a, b, bothTracked, separation, Math.atan2(dy, dx));
+    this.updateTension(bothTracked ? separation : 0, dt);
+    if (bothTracked) this.detectClap(a, b, separation, now);
+  }
+
+  private updatePinch(a: HandPoint, b: HandPoint, bothTracked: boolean, separation: number, angle: number) {
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const bothPinching = bothTracked && a.gesture === 'PINCH' && b.gesture === 'PINCH';
+
+    if (!bothPinching) {
+      this.grab = null;
+      this.state.pinchActive = false;
+      this.state.pan = { x: 0, y: 0 };
+      this.state.scale = 1;
+      this.state.rotation = 0;
+      return;
+    }
+
+    if (!this.grab) {
+      this.grab = { separation: Math.max(separation, 1e-3), angle, center };
+    }
+
+    // Wrap into -PI..PI so crossing the atan2 seam does not spin the image
+    let rotation = angle - this.grab.angle;
+    rotation = Math.atan2(Math.sin(rotation), Math.cos(rotation));
+
+    this.state.pinchActive = true;
+    this.state.center = center;
+    this.state.pan = { x: center.x - this.grab.center.x, y: center.y - this.grab.center.y };
+    this.state.scale = separation / this.grab.separation;
+    this.state.rotation = rotation;
+  }
+
+  private updateTension(separation: number, dt: number) {
+    const { tensionRest, tensionMax, tensionAttack, tensionRelease } = this.options;
+    const target = Math.max(0, Math.min(1, (separation - tensionRest) / (tensionMax - tensionRest)));
+    const timeConstant = target > this.state.tension ? tensionAttack : tensionRelease;
+    const k = dt > 0 ? 1 - Math.exp(-dt / timeConstant) : 0;
+    this.state.tension += (target - this.state.tension) * k;
+  }
+
+  private detectClap(a: HandPoint, b: HandPoint, separation: number, now: number) {
+    const { clapDistance, clapApproach, clapWindowMs, clapCooldownMs } = this.options;
+
+    this.recentSeparations.push({ t: now, d: separation });
+    this.recentSeparations = this.recentSeparations.filter(s => now - s.t <= clapWindowMs);
+
+    // Open hands only: pinches and fists meeting are not claps
+    const openHands = a.gesture !== 'PINCH' && b.gesture !== 'PINCH' && a.gesture !== 'FIST' && b.gesture !== 'FIST';
+    if (!openHands || separation > clapDistance || now - this.lastClap < clapCooldownMs) return;
+
+    const cameFromApart = this.recentSeparations.some(s => s.d > clapApproach);
+    if (!cameFromApart) return;
+
+    this.lastClap = now;
+    this.recentSeparations = [];
+    this.clapListeners.forEach(listener => listener(now));
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Exports what is on screen: PNG stills of the canvas and WebM clips with the
+ * app's sound mixed in.
+ *
+ * Stills are taken inside the render loop (FluidScene), straight after the
+ * frame is drawn, because the WebGL drawing buffer is cleared once it has been
+ * shown. Upscaled stills re-render that frame at a higher pixel ratio.
+ */
+
+export const STILL_SCALES = [1, 2, 4] as const;
+export type StillScale = typeof STILL_SCALES[number];
+
+export interface CaptureState {
+  isRecording: boolean;
+  // performance.now() when the current clip started
+  startedAt: number;
+  // Clips stop by themselves after this long (ms)
+  maxDuration: number;
+}
+
+export type CaptureListener = (state: CaptureState) => void;
+export type ClipListener = (clip: Blob) => void;
+
+export const DEFAULT_MAX_CLIP_DURATION = 60_000;
+
+/** Reads `?clipSeconds=` (e.g. 30) for the clip length limit. */
+export const readClipLimitFromUrl = (search = window.location.search) => {
+  const seconds = parseFloat(new URLSearchParams(search).get('clipSeconds') ?? '');
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_MAX_CLIP_DURATION;
+};
+
+/** `suspended-reality-2024-05-01T12-30-00-000Z.png`: sortable, and safe on every file system. */
+export const captureFileName = (extension: 'png' | 'webm', date = new Date()) =>
+  `suspended-reality-${date.toISOString().replace(/[:.]/g, '-')}.${extension}`;
+
+// How long a download's object URL stays valid (ms)
+const DOWNLOAD_URL_LIFETIME = 10_000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Some browsers start the download after click() returns; revoking now can cancel it
+  window.setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME);
+};
+
+// Best first; the plain container lets the browser pick codecs
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const AV_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+const pickMimeType = (withAudio: boolean) => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return (withAudio ? AV_TYPES : VIDEO_TYPES).find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+interface PendingStill {
+  scale: StillScale;
+  resolve: (png: Blob) => void;
+  reject: (err: Error) => void;
+}
+
+export class CanvasCapture {
+  private canvas: HTMLCanvasElement | null = null;
+  private audio: MediaStreamAudioDestinationNode | null = null;
+  private pendingStill: PendingStill | null = null;
+  private recorder: MediaRecorder | null = null;
+  private stopTimer: number | undefined;
+  private state: CaptureState;
+  private listeners = new Set<CaptureListener>();
+  private clipListeners = new Set<ClipListener>();
+
+  constructor(maxDuration = DEFAULT_MAX_CLIP_DURATION) {
+    this.state = { isRecording: false, startedAt: 0, maxDuration };
+  }
+
+  /** The scene's canvas; null when it unmounts. */
+  attachCanvas(canvas: HTMLCanvasElement | null) {
+    if (canvas === this.canvas) return;
+    if (this.recorder) this.stopRecording();
+    this.pendingStill?.reject(new Error('The canvas went away before the still was taken'));
+    this.pendingStill = null;
+    this.canvas = canvas;
+  }
+
+  /**
+   * Taps `output` (AudioManager's master bus) for recordings. Clips started
+   * before this have no sound. Returns a detach function.
+   */
+  attachAudio(ctx: AudioContext, output: AudioNode) {
+    const destination = ctx.createMediaStreamDestination();
+    output.connect(destination);
+    this.audio = destination;
+    return () => {
+      output.disconnect(destination);
+      if (this.audio === destination) this.audio = null;
+    };
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: CaptureListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Called with every finished clip, whether it was stopped or hit the limit. */
+  onClip(listener: ClipListener) {
+    this.clipListeners.add(listener);
+    return () => { this.clipListeners.delete(listener); };
+  }
+
+  // --- STILLS ---
+
+  /** A PNG of the next rendered frame at `scale` times the canvas resolution. */
+  takeStill(scale: StillScale = 1): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      if (!this.canvas) {
+        reject(new Error('Nothing to capture yet'));
+        return;
+      }
+      this.pendingStill?.reject(new Error('Replaced by a newer still'));
+      this.pendingStill = { scale, resolve, reject };
+    });
+  }
+
+  /** The scale of the still the render loop owes, or null. */
+  get requestedStillScale(): StillScale | null {
+    return this.pendingStill?.scale ?? null;
+  }
+
+  /** Encodes the canvas as it is now. Call right after rendering, in the same task. */
+  resolveStill() {
+    const still = this.pendingStill;
+    if (!still || !this.canvas) return;
+    this.pendingStill = null;
+    // toBlob copies the bitmap synchronously and only encodes asynchronously
+    this.canvas.toBlob(png => {
+      if (png) still.resolve(png);
+      else still.reject(new Error('The canvas could not be encoded'));
+    }, 'image/png');
+  }
+
+  // --- CLIPS ---
+
+  /** Starts a WebM clip of the canvas and the app's audio. Throws when the browser cannot record WebM. */
+  startRecording() {
+    if (this.recorder) return;
+    if (!this.canvas) throw new Error('Nothing to record yet');
+    const audioTracks = this.audio?.stream.getAudioTracks() ?? [];
+    const mimeType = pickMimeType(audioTracks.length > 0);
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    const stream = this.canvas.captureStream(60);
+    audioTracks.forEach(track => stream.addTrack(track));
+    const recorder = new MediaRecorder(stream, { mimeType });
+    // Per clip: the last chunks of a stopped clip can arrive after the next one has started
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      // Only the canvas track is ours to end; the audio track is reused by the next clip
+      stream.getVideoTracks().forEach(track => track.stop());
+      const clip = new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+      if (clip.size > 0) this.clipListeners.forEach(listener => listener(clip));
+    };
+    // Timesliced, so a long clip is not one huge buffer at the end
+    recorder.start(1000);
+    this.recorder = recorder;
+
+    this.stopTimer = window.setTimeout(() => this.stopRecording(), this.state.maxDuration);
+    this.emit({ isRecording: true, startedAt: performance.now() });
+  }
+
+  /** Stops the current clip; it arrives through onClip once encoded. */
+  stopRecording() {
+    if (!this.recorder) return;
+    window.clearTimeout(this.stopTimer);
+    if (this.recorder.state !== 'inactive') this.recorder.stop();
+    this.recorder = null;
+    this.emit({ isRecording: false, startedAt: 0 });
+  }
+
+  private emit(change: Partial<CaptureState>) {
+    this.state = { ...this.state, ...change };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
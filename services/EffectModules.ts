@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import { FluidParams, GestureType, HandData } from '../types';
+import { GestureEvent } from './GestureEvents';
+import { BimanualState } from './BimanualGestures';
+import { StretchEffect } from './StretchEffect';
+import { RippleEffect } from './RippleEffect';
+import { WaveSource } from './WaveHeightfield';
+
+/**
+ * Gesture-driven effects as self-contained modules. A module names the
+ * gestures it reacts to and may bring any of:
+ * - GLSL spliced into the composite shader (see EffectShaderChunks)
+ * - its own uniforms, merged into the composite material
+ * - CPU state stepped every frame and fed gesture start/end events
+ * - a sound voice mixed by AudioManager
+ * - sources that drive the ripple surface's heightfield
+ *
+ * Modules are composed at runtime: registering or removing one rebuilds the
+ * composite shader and the audio voices.
+ */
+
+/** Per-frame input for update(). Hands are image space (0-1, y down). */
+export interface EffectFrame {
+  hands: HandData;
+  params: FluidParams;
+  dt: number;
+  time: number;
+  bimanual: BimanualState;
+}
+
+/**
+ * GLSL chunks, each spliced in its own block. Inside them HAND_ON(i) is true
+ * while hand slot i holds one of the module's gestures; the composite's
+ * hand uniforms (uHandCount, uHandPos, uHandZ, uHandActive) and params are
+ * in scope.
+ */
+export interface EffectShaderChunks {
+  // Top level: the module's uniforms and helper functions
+  declarations?: string;
+  // Before the surface slope is taken: add to `totalHeight` (float) and
+  // `totalStretch` (vec2), sampling at `glassUV` (y up) with `textureAspect`
+  surface?: string;
+  // After refraction and material shading, before highlights: adjust `finalColor`
+  // (sampleBackdrop(finalUV) is the refracted backdrop; `curvature` is the slope length)
+  color?: string;
+}
+
+/** What a voice gets to play through. */
+export interface EffectAudio {
+  ctx: AudioContext;
+  // One input per hand slot, already panned to where that hand is
+  hands: AudioNode[];
+  // Unpanned, for one-shots
+  master: AudioNode;
+  // Two seconds of looping-friendly pink noise
+  noise: AudioBuffer;
+}
+
+export interface EffectVoice {
+  update(now: number, hands: HandData): void;
+  // A hand started one of the module's gestures
+  onset?(event: GestureEvent, now: number): void;
+  dispose(): void;
+}
+
+export interface EffectModule {
+  // Also the module's GLSL namespace: a letter, then letters, digits or underscores
+  readonly id: string;
+  readonly gestures: GestureType[];
+  readonly shader?: EffectShaderChunks;
+  readonly uniforms?: Record<string, THREE.IUniform>;
+  update?(frame: EffectFrame): void;
+  onGestureStart?(event: GestureEvent): void;
+  onGestureEnd?(event: GestureEvent): void;
+  // Clap: drop any accumulated state
+  reset?(): void;
+  // Oscillating sources for the ripple surface this frame (see WaveHeightfield)
+  waveSources?(hands: HandData): WaveSource[];
+  createVoice?(audio: EffectAudio): EffectVoice;
+}
+
+const MODULE_ID = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Name of the per-hand activity array the composite provides for a module. */
+export const effectHandsUniform = (id: string) => `uFx_${id}_hands`;
+
+export const handlesGesture = (module: EffectModule, gesture: GestureType) =>
+  gesture !== 'NONE' && module.gestures.includes(gesture);
+
+/** Top-level GLSL for every module: the activity array, then its own declarations. */
+export const composeEffectDeclarations = (modules: readonly EffectModule[]) => modules.map(module => `
+  // --- EFFECT: ${module.id} ---
+  uniform float ${effectHandsUniform(module.id)}[MAX_HANDS];
+  ${module.shader?.declarations ?? ''}
+`).join('\n');
+
+/** One block per module that has the chunk, with HAND_ON bound to that module's hands. */
+export const composeEffectChunk = (modules: readonly EffectModule[], stage: 'surface' | 'color') => modules
+  .filter(module => module.shader?.[stage])
+  .map(module => `
+    // ${module.id}
+    #define HAND_ON(i) (${effectHandsUniform(module.id)}[i] > 0.5)
+    {
+      ${module.shader![stage]}
+    }
+    #undef HAND_ON
+  `).join('\n');
+
+export type EffectModuleListener = () => void;
+
+/**
+ * Active effect modules in composition order (later modules see earlier
+ * modules' height and colour).
+ */
+class EffectModuleRegistry {
+  private modules: EffectModule[];
+  private listeners = new Set<EffectModuleListener>();
+
+  constructor(initial: EffectModule[]) {
+    this.modules = initial;
+  }
+
+  /** Adds a module, or replaces the one with the same id in place. */
+  register(module: EffectModule) {
+    if (!MODULE_ID.test(module.id)) throw new Error(`Effect module id '${module.id}' must be a GLSL-safe name`);
+    const index = this.modules.findIndex(existing => existing.id === module.id);
+    this.modules = index >= 0
+      ? this.modules.map((existing, i) => i === index ? module : existing)
+      : [...this.modules, module];
+    this.notify();
+  }
+
+  unregister(id: string) {
+    const next = this.modules.filter(module => module.id !== id);
+    if (next.length === this.modules.length) return;
+    this.modules = next;
+    this.notify();
+  }
+
+  get(id: string) {
+    return this.modules.find(module => module.id === id);
+  }
+
+  /** The current modules. A new array after every change, so it can key memoised work. */
+  list(): readonly EffectModule[] {
+    return this.modules;
+  }
+
+  /** Called after any module is added or removed. Returns an unsubscribe function. */
+  subscribe(listener: EffectModuleListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const effectModules = new EffectModuleRegistry([new StretchEffect(), new RippleEffect()]);
@@ -0,0 +1,71 @@
+import { GestureType, HandData } from '../types';
+
+export type GestureEventType = 'gestureStart' | 'gestureEnd' | 'gestureChange';
+
+export interface GestureEvent {
+  type: GestureEventType;
+  hand: number;           // slot index in HandData
+  id: number | null;      // tracked hand identity (see HandPoint.id)
+  gesture: GestureType;   // gesture that started/ended, or the new one for gestureChange
+  previous: GestureType;
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export type GestureListener = (event: GestureEvent) => void;
+
+/**
+ * Turns the stream of HandData frames into discrete gesture events.
+ * Every transition emits gestureChange; leaving a gesture also emits
+ * gestureEnd and entering one emits gestureStart (NONE never starts/ends).
+ * Fed from whichever frames actually reach the scene, so live input and
+ * replayed sessions produce the same events.
+ */
+export class GestureEventBus {
+  private listeners: { [K in GestureEventType]: Set<GestureListener> } = {
+    gestureStart: new Set(),
+    gestureEnd: new Set(),
+    gestureChange: new Set(),
+  };
+  private lastGestures: GestureType[] = [];
+  private lastIds: (number | null)[] = [];
+
+  on(type: GestureEventType, listener: GestureListener) {
+    this.listeners[type].add(listener);
+    return () => { this.listeners[type].delete(listener); };
+  }
+
+  update(hands: HandData, timestamp = performance.now()) {
+    hands.forEach((hand, i) => {
+      const previous = this.lastGestures[i] ?? 'NONE';
+      const previousId = this.lastIds[i] ?? null;
+      // A different hand in the same slot ends the old hand's gesture even if the type matches
+      const handChanged = hand.id !== previousId && previous !== 'NONE';
+      if (hand.gesture === previous && !handChanged) return;
+      this.lastGestures[i] = hand.gesture;
+      this.lastIds[i] = hand.id;
+
+      const base = { hand: i, id: hand.id, previous, x: hand.x, y: hand.y, timestamp };
+      if (previous !== 'NONE') this.emit({ ...base, id: previousId, type: 'gestureEnd', gesture: previous });
+      if (hand.gesture !== 'NONE') this.emit({ ...base, type: 'gestureStart', gesture: hand.gesture });
+      this.emit({ ...base, type: 'gestureChange', gesture: hand.gesture });
+    });
+  }
+
+  /** Ends every active gesture, e.g. when the input source is switched. */
+  reset(timestamp = performance.now()) {
+    this.lastGestures.forEach((gesture, i) => {
+      if (gesture === 'NONE') return;
+      const base = { hand: i, id: this.lastIds[i] ?? null, previous: gesture, x: 0.5, y: 0.5, timestamp };
+      this.emit({ ...base, type: 'gestureEnd', gesture });
+      this.emit({ ...base, type: 'gestureChange', gesture: 'NONE' });
+    });
+    this.lastGestures = [];
+    this.lastIds = [];
+  }
+
+  private emit(event: GestureEvent) {
+    this.listeners[event.type].forEach(listener => listener(event));
+  }
+}
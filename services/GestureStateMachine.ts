@@ -0,0 +1,87 @@
+import { GestureType } from '../types';
+import { GestureRule, GestureRuleThresholds, HandFeatures, gestureRegistry, matchesRule } from './gestureRules';
+
+export interface GestureThresholds extends GestureRuleThresholds {
+  enterHoldMs: number;       // a new gesture must persist this long before it is committed
+  exitHoldMs: number;        // a gesture must be absent this long before it is released
+  lostGraceMs: number;       // keep the gesture through dropped detections up to this long
+}
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  extendedEnter: 1.1,
+  extendedExit: 1.0,
+  curledEnter: 1.0,
+  curledExit: 1.1,
+  distanceScale: 1.0,
+  distanceExitScale: 1.4,
+  facingEnter: 0.002,
+  facingExit: 0.0,
+  pointingEnter: 0.7,
+  pointingExit: 0.5,
+  enterHoldMs: 60,
+  exitHoldMs: 120,
+  lostGraceMs: 250,
+};
+
+/**
+ * Debounced gesture classification for one hand. Separate enter/exit
+ * thresholds keep a hand hovering near a boundary from flickering, and
+ * hold times filter single-frame misdetections in either direction.
+ */
+export class GestureStateMachine {
+  gesture: GestureType = 'NONE';
+  private pending: GestureType = 'NONE';
+  private pendingSince = 0;
+  private lastSeen = -Infinity;
+
+  constructor(
+    public thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS,
+    private getRules: () => GestureRule[] = () => gestureRegistry.list()
+  ) {}
+
+  reset() {
+    this.gesture = 'NONE';
+    this.pending = 'NONE';
+    this.lastSeen = -Infinity;
+  }
+
+  /** Feeds one frame (null when the hand was not detected) and returns the committed gesture. */
+  update(features: HandFeatures | null, now: number): GestureType {
+    if (!features) {
+      // Whatever was pending has to be held again from scratch once the hand is back
+      this.pending = 'NONE';
+      this.pendingSince = now;
+      if (this.gesture !== 'NONE' && now - this.lastSeen > this.thresholds.lostGraceMs) {
+        this.gesture = 'NONE';
+      }
+      return this.gesture;
+    }
+    this.lastSeen = now;
+
+    const desired = this.classify(features);
+    if (desired === this.gesture) {
+      this.pending = desired;
+      return this.gesture;
+    }
+
+    if (desired !== this.pending) {
+      this.pending = desired;
+      this.pendingSince = now;
+    }
+
+    const hold = desired === 'NONE' ? this.thresholds.exitHoldMs : this.thresholds.enterHoldMs;
+    if (now - this.pendingSince >= hold) {
+      this.gesture = desired;
+    }
+    return this.gesture;
+  }
+
+  // The current gesture is judged against the looser exit thresholds,
+  // any other gesture against the stricter enter thresholds.
+  private classify(features: HandFeatures): GestureType {
+    for (const rule of this.getRules()) {
+      if (matchesRule(rule, features, this.thresholds, rule.name === this.gesture)) return rule.name;
+    }
+    return 'NONE';
+  }
+}
@@ -0,0 +1,66 @@
+import { HandData, Landmark3 } from '../types';
+import { HandProcessorOptions } from './HandLandmarkProcessor';
+import { LandmarkerInfo } from './mediapipeAssets';
+import { HeadListener } from './HeadTracking';
+import { MaskListener } from './PersonSegmentation';
+
+export type HandInputKind = 'webcam' | 'video-file' | 'synthetic';
+
+/** Raw landmarker output for one frame, for consumers that need more than HandData. */
+export interface RawHandFrame {
+  landmarks: Landmark3[][];
+  handedness: string[];
+}
+
+export type HandFrameCallback = (data: HandData, raw?: RawHandFrame) => void;
+export type HandErrorCallback = (error: Error) => void;
+export type DetectorReadyCallback = (info: LandmarkerInfo) => void;
+
+/**
+ * Anything that can drive the scene: produces HandData frames plus a video
+ * element for FluidScene to refract. Sources own their video element and
+ * every resource behind it (streams, landmarker, timers).
+ */
+export interface HandInputSource {
+  readonly kind: HandInputKind;
+  /**
+   * Starts producing frames. Resolves once the video element is playing;
+   * failures after that point (e.g. the landmarker failing to load) go to onError.
+   * Landmarker sources call onDetectorReady once detection is running.
+   */
+  start(onFrame: HandFrameCallback, onError: HandErrorCallback, onDetectorReady?: DetectorReadyCallback): Promise<HTMLVideoElement>;
+  /** Stops frame delivery and releases everything acquired in start(). Safe to call twice. */
+  stop(): void;
+  /** Updates landmark processing (thresholds, filters, depth) on the fly. Landmarker sources only. */
+  configure?(processing: Partial<HandProcessorOptions>): void;
+  /**
+   * Runs a face landmarker pass beside the hands and reports the viewer's
+   * head position with every detection; null turns the pass off.
+   * Landmarker sources only.
+   */
+  trackHead?(listener: HeadListener | null): void;
+  /**
+   * Runs a person segmentation pass and reports its mask with every
+   * detection; null turns the pass off. Landmarker sources only.
+   */
+  segmentPerson?(listener: MaskListener | null): void;
+}
+
+// Creates the muted, inline video element every source plays into
+export const createSourceVideo = (): HTMLVideoElement => {
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.muted = true;
+  video.autoplay = true;
+  return video;
+};
+
+// Waits for metadata, then starts playback
+export const playVideo = (video: HTMLVideoElement) => {
+  return new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => {
+      video.play().then(() => resolve()).catch(reject);
+    };
+    video.onerror = () => reject(new Error("Video load failed"));
+  });
+};
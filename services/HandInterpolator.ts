@@ -0,0 +1,108 @@
+import { HandData, HandPoint, Landmark3 } from '../types';
+import { computeFingerStates, computeHandFeatures } from './gestureRules';
+
+export interface HandInterpolatorOptions {
+  /**
+   * Render this far behind the newest detection (ms). 0 projects forward from
+   * the last two detections instead: lowest latency, small overshoot on stops.
+   */
+  delayMs: number;
+  /** How far past the newest detection positions may be projected (ms). */
+  maxExtrapolationMs: number;
+}
+
+export const DEFAULT_INTERPOLATOR_OPTIONS: HandInterpolatorOptions = {
+  delayMs: 0,
+  maxExtrapolationMs: 80,
+};
+
+interface TimedHandData {
+  time: number;
+  data: HandData;
+}
+
+// Enough history to interpolate with a few frames of delay at 30fps detection
+const HISTORY = 6;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpLandmarks = (a: Landmark3[] | undefined, b: Landmark3[] | undefined, t: number) => {
+  if (!a || !b || a.length !== b.length) return b;
+  return b.map((p, i) => ({ x: lerp(a[i].x, p.x, t), y: lerp(a[i].y, p.y, t), z: lerp(a[i].z, p.z, t) }));
+};
+
+// Same tracked hand holding the same gesture in both frames; anything else
+// (a new hand, a gesture switch moving the anchor) snaps instead of blending.
+// Every pose field is blended with the same t, and finger states are derived
+// from the blended pose so they agree with the landmarks they describe.
+const blendHand = (a: HandPoint, b: HandPoint, t: number): HandPoint => {
+  if (a.id === null || a.id !== b.id || a.gesture !== b.gesture) return t < 0.5 ? a : b;
+  const v = Math.min(Math.max(t, 0), 1); // velocities are never projected
+  const landmarks = lerpLandmarks(a.landmarks, b.landmarks, t);
+  const worldLandmarks = lerpLandmarks(a.worldLandmarks, b.worldLandmarks, t);
+  const fingers = b.fingers && landmarks && b.handedness
+    ? computeFingerStates(computeHandFeatures(landmarks, b.handedness), worldLandmarks ?? landmarks)
+    : b.fingers;
+  return {
+    ...b,
+    x: lerp(a.x, b.x, t),
+    y: lerp(a.y, b.y, t),
+    z: Math.min(Math.max(lerp(a.z, b.z, t), 0), 1),
+    indexTip: {
+      x: lerp(a.indexTip.x, b.indexTip.x, t),
+      y: lerp(a.indexTip.y, b.indexTip.y, t),
+      vx: lerp(a.indexTip.vx, b.indexTip.vx, v),
+      vy: lerp(a.indexTip.vy, b.indexTip.vy, v),
+    },
+    landmarks,
+    worldLandmarks,
+    fingers,
+  };
+};
+
+/**
+ * Resamples detections, which arrive late and at the detector's own rate,
+ * to the display frame time.
+ */
+export class HandInterpolator {
+  private history: TimedHandData[] = [];
+  options: HandInterpolatorOptions;
+
+  constructor(options: Partial<HandInterpolatorOptions> = {}) {
+    this.options = { ...DEFAULT_INTERPOLATOR_OPTIONS, ...options };
+  }
+
+  /** Adds a detection taken at `time` (capture time, not arrival time). */
+  push(data: HandData, time: number) {
+    const last = this.history[this.history.length - 1];
+    if (last && time <= last.time) return;
+    this.history.push({ time, data });
+    if (this.history.length > HISTORY) this.history.shift();
+  }
+
+  /** Hand state at display time `now`, or null before the first detection. */
+  sample(now: number): HandData | null {
+    const history = this.history;
+    if (history.length === 0) return null;
+    if (history.length === 1) return history[0].data;
+
+    const target = now - this.options.delayMs;
+    if (target <= history[0].time) return history[0].data;
+
+    // Surrounding pair, or the newest two when projecting past the end
+    let i = history.length - 1;
+    while (i > 1 && history[i - 1].time >= target) i--;
+    const a = history[i - 1];
+    const b = history[i];
+    const clamped = Math.min(target, b.time + this.options.maxExtrapolationMs);
+    const t = (clamped - a.time) / (b.time - a.time);
+
+    // Slot count changed between the two frames: nothing to blend
+    if (a.data.length !== b.data.length) return b.data;
+    return b.data.map((hand, slot) => blendHand(a.data[slot], hand, t));
+  }
+
+  reset() {
+    this.history = [];
+  }
+}
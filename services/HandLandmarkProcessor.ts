@@ -0,0 +1,240 @@
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandData, GestureType, Handedness, DEFAULT_HAND_COUNT, createIdleHandData } from '../types';
+import { GestureStateMachine, GestureThresholds, DEFAULT_GESTURE_THRESHOLDS } from './GestureStateMachine';
+import { HandTracker } from './HandTracker';
+import { computeHandFeatures, computeFingerStates, gestureRegistry } from './gestureRules';
+import { OneEuroFilter, HandFilterSettings, DEFAULT_FILTER_SETTINGS } from './OneEuroFilter';
+
+/** Maps apparent hand size (wrist to middle MCP, image units) to z. */
+export interface DepthMapping {
+  far: number;   // hand size that reads as z = 0
+  near: number;  // hand size that reads as z = 1
+}
+
+export const DEFAULT_DEPTH_MAPPING: DepthMapping = { far: 0.05, near: 0.25 };
+
+export interface HandProcessorOptions {
+  thresholds: GestureThresholds;
+  filters: HandFilterSettings;
+  depth: DepthMapping;
+  // Attach landmarks, world landmarks and finger states to each HandPoint
+  includePose: boolean;
+  // Hand slots per frame, and the most hands the landmarker looks for (1..MAX_HANDS)
+  handCount: number;
+}
+
+interface HandSlotState {
+  gesture: GestureType;
+  machine: GestureStateMachine;
+  smoothedPos: { x: number, y: number };
+  smoothedZ: number;
+  // Track index finger for velocity
+  indexTipState: { x: number, y: number, vx: number, vy: number };
+  rawIndexTip: { x: number, y: number } | null;
+  lastTime: number; // seconds
+  filters: { x: OneEuroFilter, y: OneEuroFilter, z: OneEuroFilter, tipX: OneEuroFilter, tipY: OneEuroFilter, vx: OneEuroFilter, vy: OneEuroFilter };
+}
+
+const createSlotState = ({ thresholds, filters }: HandProcessorOptions): HandSlotState => ({
+  gesture: 'NONE',
+  machine: new GestureStateMachine(thresholds),
+  smoothedPos: { x: 0.5, y: 0.5 },
+  smoothedZ: 0,
+  indexTipState: { x: 0.5, y: 0.5, vx: 0, vy: 0 },
+  rawIndexTip: null,
+  lastTime: 0,
+  filters: {
+    x: new OneEuroFilter(filters.position),
+    y: new OneEuroFilter(filters.position),
+    z: new OneEuroFilter(filters.depth),
+    tipX: new OneEuroFilter(filters.indexTip),
+    tipY: new OneEuroFilter(filters.indexTip),
+    vx: new OneEuroFilter(filters.velocity),
+    vy: new OneEuroFilter(filters.velocity),
+  }
+});
+
+/**
+ * Turns raw HandLandmarker results into smoothed HandData frames.
+ * Shared by every landmarker-backed input source (webcam, video file).
+ * All smoothing is timestamp-driven, and index tip velocity is reported in
+ * normalized image units per second, independent of camera frame rate.
+ */
+export class HandLandmarkProcessor {
+  // One slot per tracked physical hand
+  private slots: HandSlotState[] = [];
+  private tracker!: HandTracker;
+  private options: HandProcessorOptions;
+
+  constructor(options: Partial<HandProcessorOptions> = {}) {
+    this.options = {
+      thresholds: DEFAULT_GESTURE_THRESHOLDS,
+      filters: DEFAULT_FILTER_SETTINGS,
+      depth: DEFAULT_DEPTH_MAPPING,
+      includePose: true,
+      handCount: DEFAULT_HAND_COUNT,
+      ...options
+    };
+    this.reset();
+  }
+
+  /** Applies new options (e.g. a calibration profile) without dropping tracked hands. */
+  configure(options: Partial<HandProcessorOptions>) {
+    const previousCount = this.options.handCount;
+    this.options = { ...this.options, ...options };
+    if (this.options.handCount !== previousCount) {
+      this.reset();
+      return;
+    }
+    const { thresholds, filters } = this.options;
+    for (const slot of this.slots) {
+      slot.machine.thresholds = thresholds;
+      slot.filters.x.config = filters.position;
+      slot.filters.y.config = filters.position;
+      slot.filters.z.config = filters.depth;
+      slot.filters.tipX.config = filters.indexTip;
+      slot.filters.tipY.config = filters.indexTip;
+      slot.filters.vx.config = filters.velocity;
+      slot.filters.vy.config = filters.velocity;
+    }
+  }
+
+  reset() {
+    this.slots = Array.from({ length: this.options.handCount }, () => createSlotState(this.options));
+    this.tracker = new HandTracker(this.options.handCount);
+  }
+
+  process(results: HandLandmarkerResult, now = performance.now()): HandData {
+    const currentFrameData = createIdleHandData(this.options.handCount);
+    const time = now / 1000;
+    const allLandmarks = results.landmarks ?? [];
+
+    // Slots follow hand identity, not MediaPipe's result order
+    const detections = allLandmarks.map((landmarks, i) => ({
+      x: landmarks[9].x,
+      y: landmarks[9].y,
+      handedness: (results.handedness[i]?.[0]?.categoryName === 'Left' ? 'Left' : 'Right') as Handedness
+    }));
+    const assignments = this.tracker.update(detections, now);
+
+    for (let i = 0; i < this.slots.length; i++) {
+       const assignment = assignments[i];
+
+       if (assignment?.isNew) {
+          // A different hand took this slot: start its smoothing from where it is
+          const landmarks = allLandmarks[assignment.detection];
+          const fresh = createSlotState(this.options);
+          fresh.smoothedPos = { x: landmarks[9].x, y: landmarks[9].y };
+          fresh.indexTipState = { x: landmarks[8].x, y: landmarks[8].y, vx: 0, vy: 0 };
+          fresh.filters.x.reset(landmarks[9].x, time);
+          fresh.filters.y.reset(landmarks[9].y, time);
+          fresh.filters.tipX.reset(landmarks[8].x, time);
+          fresh.filters.tipY.reset(landmarks[8].y, time);
+          this.slots[i] = fresh;
+       }
+       const state = this.slots[i];
+
+       if (assignment) {
+          const landmarks = allLandmarks[assignment.detection];
+          const handedness = detections[assignment.detection].handedness;
+
+          const wrist = landmarks[0];
+          const indexTip = landmarks[8];
+          const middleMcp = landmarks[9];
+
+          // --- GESTURE LOGIC ---
+          // 1. Calculate Z (Proximity)
+          const handSize = Math.sqrt(
+            Math.pow(wrist.x - middleMcp.x, 2) +
+            Math.pow(wrist.y - middleMcp.y, 2)
+          );
+          const { far, near } = this.options.depth;
+          const rawZ = (handSize - far) / (near - far);
+          const targetZ = Math.max(0, Math.min(1, rawZ));
+
+          // 2. Classify against the gesture rules (debounced by the per-hand state machine)
+          const features = computeHandFeatures(landmarks, handedness);
+          const detectedGesture = state.machine.update(features, now);
+
+          // 3. Main position follows the gesture's anchor
+          const anchor = gestureRegistry.get(detectedGesture)?.anchor ?? 'palm';
+          let targetX = middleMcp.x;
+          let targetY = middleMcp.y;
+
+          if (anchor === 'pinch') {
+            targetX = (features.tips.thumb.x + features.tips.index.x) / 2;
+            targetY = (features.tips.thumb.y + features.tips.index.y) / 2;
+          } else if (anchor !== 'palm') {
+            targetX = features.tips[anchor].x;
+            targetY = features.tips[anchor].y;
+          }
+
+          state.gesture = detectedGesture;
+          state.smoothedPos.x = state.filters.x.filter(targetX, time);
+          state.smoothedPos.y = state.filters.y.filter(targetY, time);
+          state.smoothedZ = state.filters.z.filter(targetZ, time);
+
+          // --- SMEAR LOGIC (Index Finger Velocity) ---
+          // Raw velocity in units per second from the unfiltered tip, then filtered
+          const dt = time - state.lastTime;
+          if (state.rawIndexTip && dt > 0) {
+            state.indexTipState.vx = state.filters.vx.filter((indexTip.x - state.rawIndexTip.x) / dt, time);
+            state.indexTipState.vy = state.filters.vy.filter((indexTip.y - state.rawIndexTip.y) / dt, time);
+          }
+          state.rawIndexTip = { x: indexTip.x, y: indexTip.y };
+          state.lastTime = time;
+
+          state.indexTipState.x = state.filters.tipX.filter(indexTip.x, time);
+          state.indexTipState.y = state.filters.tipY.filter(indexTip.y, time);
+
+          currentFrameData[i] = {
+            id: assignment.id,
+            handedness,
+            gesture: state.gesture,
+            x: state.smoothedPos.x,
+            y: state.smoothedPos.y,
+            z: state.smoothedZ,
+            indexTip: {
+                x: state.indexTipState.x,
+                y: state.indexTipState.y,
+                vx: state.indexTipState.vx,
+                vy: state.indexTipState.vy
+            }
+          };
+
+          if (this.options.includePose) {
+            const worldLandmarks = results.worldLandmarks?.[assignment.detection];
+            const point = currentFrameData[i];
+            point.landmarks = landmarks.map(({ x, y, z }) => ({ x, y, z }));
+            if (worldLandmarks) point.worldLandmarks = worldLandmarks.map(({ x, y, z }) => ({ x, y, z }));
+            point.handednessScore = results.handedness[assignment.detection]?.[0]?.score;
+            point.fingers = computeFingerStates(features, point.worldLandmarks ?? point.landmarks);
+          }
+       } else {
+         // Lost hand: the machine holds the gesture through a short grace period
+         state.gesture = state.machine.update(null, now);
+         const dt = Math.max(0, time - state.lastTime);
+         state.lastTime = time;
+         state.smoothedZ *= Math.exp(-dt / this.options.filters.lostDepthDecay);
+         state.filters.z.reset(state.smoothedZ, time);
+         state.filters.vx.reset(0, time);
+         state.filters.vy.reset(0, time);
+         state.rawIndexTip = null;
+         state.indexTipState.vx = 0;
+         state.indexTipState.vy = 0;
+         const track = this.tracker.getTrack(i);
+         currentFrameData[i] = {
+            id: track?.id ?? null,
+            handedness: track?.handedness ?? null,
+            gesture: state.gesture,
+            x: state.smoothedPos.x,
+            y: state.smoothedPos.y,
+            z: state.smoothedZ,
+            indexTip: { x: state.indexTipState.x, y: state.indexTipState.y, vx: 0, vy: 0 }
+         };
+       }
+    }
+
+    return currentFrameData;
+  }
+}
@@ -0,0 +1,120 @@
+import { DEFAULT_HAND_COUNT, Handedness } from '../types';
+
+/** One detected hand in the current landmarker result. */
+export interface HandDetection {
+  x: number;
+  y: number;
+  handedness: Handedness;
+}
+
+export interface SlotAssignment {
+  detection: number;  // index into the detections passed to update()
+  id: number;
+  isNew: boolean;     // first frame of this track: slot state should be reseeded
+}
+
+export interface HandTrackerOptions {
+  maxMatchDistance: number;   // normalized image units a hand may move between detections
+  handednessPenalty: number;  // added distance when handedness disagrees (MediaPipe sometimes flips it)
+  timeoutMs: number;          // unseen tracks are dropped after this long, freeing their slot
+}
+
+export const DEFAULT_TRACKER_OPTIONS: HandTrackerOptions = {
+  maxMatchDistance: 0.25,
+  handednessPenalty: 0.15,
+  timeoutMs: 500,
+};
+
+interface Track {
+  id: number;
+  slot: number;
+  handedness: Handedness;
+  x: number;
+  y: number;
+  lastSeen: number;
+}
+
+/**
+ * Keeps a persistent identity per physical hand so that HandData slots stay
+ * attached to the same hand when MediaPipe reorders its results or one hand
+ * briefly drops out. Matching is greedy nearest-neighbour with a handedness
+ * penalty; a track keeps its slot until it times out.
+ */
+export class HandTracker {
+  private tracks: Track[] = [];
+  private nextId = 0;
+
+  constructor(private slotCount = DEFAULT_HAND_COUNT, private options: HandTrackerOptions = DEFAULT_TRACKER_OPTIONS) {}
+
+  reset() {
+    this.tracks = [];
+  }
+
+  /** Track currently holding a slot, if any (also during short dropouts). */
+  getTrack(slot: number): { id: number, handedness: Handedness } | null {
+    const track = this.tracks.find(t => t.slot === slot);
+    return track ? { id: track.id, handedness: track.handedness } : null;
+  }
+
+  /** Matches this frame's detections to tracks; returns the assignment per slot. */
+  update(detections: HandDetection[], now: number): (SlotAssignment | null)[] {
+    this.tracks = this.tracks.filter(t => now - t.lastSeen <= this.options.timeoutMs);
+
+    // Every plausible (track, detection) pair, cheapest first
+    const pairs: { track: Track, detection: number, cost: number }[] = [];
+    for (const track of this.tracks) {
+      detections.forEach((d, i) => {
+        const dist = Math.hypot(d.x - track.x, d.y - track.y);
+        if (dist > this.options.maxMatchDistance) return;
+        const penalty = d.handedness === track.handedness ? 0 : this.options.handednessPenalty;
+        pairs.push({ track, detection: i, cost: dist + penalty });
+      });
+    }
+    pairs.sort((a, b) => a.cost - b.cost);
+
+    const assignments: (SlotAssignment | null)[] = new Array(this.slotCount).fill(null);
+    const matchedTracks = new Set<Track>();
+    const matchedDetections = new Set<number>();
+
+    for (const { track, detection } of pairs) {
+      if (matchedTracks.has(track) || matchedDetections.has(detection)) continue;
+      matchedTracks.add(track);
+      matchedDetections.add(detection);
+      this.refresh(track, detections[detection], now);
+      assignments[track.slot] = { detection, id: track.id, isNew: false };
+    }
+
+    // Unmatched detections start new tracks in a free slot, or displace the
+    // longest-unseen track that was not matched this frame
+    detections.forEach((d, i) => {
+      if (matchedDetections.has(i)) return;
+
+      let slot = -1;
+      for (let s = 0; s < this.slotCount; s++) {
+        if (!this.tracks.some(t => t.slot === s)) { slot = s; break; }
+      }
+      if (slot === -1) {
+        const stale = this.tracks
+          .filter(t => !matchedTracks.has(t))
+          .sort((a, b) => a.lastSeen - b.lastSeen)[0];
+        if (!stale) return; // more hands than slots
+        this.tracks = this.tracks.filter(t => t !== stale);
+        slot = stale.slot;
+      }
+
+      const track: Track = { id: this.nextId++, slot, handedness: d.handedness, x: d.x, y: d.y, lastSeen: now };
+      this.tracks.push(track);
+      matchedTracks.add(track);
+      assignments[slot] = { detection: i, id: track.id, isNew: true };
+    });
+
+    return assignments;
+  }
+
+  private refresh(track: Track, detection: HandDetection, now: number) {
+    track.x = detection.x;
+    track.y = detection.y;
+    track.handedness = detection.handedness;
+    track.lastSeen = now;
+  }
+}
@@ -0,0 +1,78 @@
+import { HeadPose, Landmark3 } from '../types';
+import { OneEuroFilter, OneEuroConfig } from './OneEuroFilter';
+
+export type HeadListener = (pose: HeadPose | null, timestamp: number) => void;
+
+// Face mesh landmarks: outer eye corners
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+// Eye-corner distance (image units) that reads as z = 0 and z = 1
+const FAR_EYE_SPAN = 0.05;
+const NEAR_EYE_SPAN = 0.2;
+
+/** Head position from one face's landmarks: the point between the eyes. */
+export const estimateHeadPose = (face: Landmark3[]): HeadPose => {
+  const l = face[LEFT_EYE_OUTER];
+  const r = face[RIGHT_EYE_OUTER];
+  const span = Math.hypot(r.x - l.x, r.y - l.y);
+  return {
+    x: (l.x + r.x) / 2,
+    y: (l.y + r.y) / 2,
+    z: Math.max(0, Math.min(1, (span - FAR_EYE_SPAN) / (NEAR_EYE_SPAN - FAR_EYE_SPAN))),
+  };
+};
+
+export interface HeadParallaxState {
+  // Head offset from frame centre, -1..1, image space (y down)
+  offset: { x: number, y: number };
+  z: number;
+  // 0-1: eases in when a face is found and out when it is lost or the pass is off
+  presence: number;
+}
+
+// Heads move slowly and jitter is very visible as a swaying pane
+const HEAD_FILTER: OneEuroConfig = { minCutoff: 0.5, beta: 2.0, dCutoff: 1.0 };
+const PRESENCE_ATTACK = 0.3;  // seconds
+const PRESENCE_RELEASE = 0.8;
+
+/**
+ * Smooths head poses from the face pass into the state FluidScene reads
+ * every frame. Losing the face never snaps the view: presence fades out and
+ * the last offset is held until it reaches zero.
+ */
+export class HeadParallax {
+  state: HeadParallaxState = { offset: { x: 0, y: 0 }, z: 0, presence: 0 };
+
+  private filters = { x: new OneEuroFilter(HEAD_FILTER), y: new OneEuroFilter(HEAD_FILTER), z: new OneEuroFilter(HEAD_FILTER) };
+  private lastTime = 0;
+
+  update(pose: HeadPose | null, timestamp: number) {
+    const time = timestamp / 1000;
+    const dt = this.lastTime ? Math.min(time - this.lastTime, 0.1) : 0;
+    this.lastTime = time;
+
+    const target = pose ? 1 : 0;
+    const timeConstant = target > this.state.presence ? PRESENCE_ATTACK : PRESENCE_RELEASE;
+    const k = dt > 0 ? 1 - Math.exp(-dt / timeConstant) : 0;
+    this.state.presence += (target - this.state.presence) * k;
+
+    if (!pose) return;
+    if (this.state.presence < 0.01) {
+      // Face found again after fading out: start from where it is
+      this.filters.x.reset(pose.x, time);
+      this.filters.y.reset(pose.y, time);
+      this.filters.z.reset(pose.z, time);
+    }
+    this.state.offset = {
+      x: (this.filters.x.filter(pose.x, time) - 0.5) * 2,
+      y: (this.filters.y.filter(pose.y, time) - 0.5) * 2,
+    };
+    this.state.z = this.filters.z.filter(pose.z, time);
+  }
+
+  reset() {
+    this.state = { offset: { x: 0, y: 0 }, z: 0, presence: 0 };
+    this.lastTime = 0;
+  }
+}
@@ -0,0 +1,217 @@
+import { HandInputKind, HandInputSource, HandFrameCallback, HandErrorCallback, DetectorReadyCallback, RawHandFrame, createSourceVideo } from './HandInputSource';
+import { HandProcessorOptions } from './HandLandmarkProcessor';
+import { HandInterpolator, HandInterpolatorOptions } from './HandInterpolator';
+import { gestureRegistry } from './gestureRules';
+import { HeadListener } from './HeadTracking';
+import { MaskListener } from './PersonSegmentation';
+import { DetectionWorkerRequest, DetectionWorkerResponse } from './handDetectionProtocol';
+import { HAND_MODEL, MEDIAPIPE_RUNTIME_VERSION, resolveMediapipeAssets } from './mediapipeAssets';
+
+/**
+ * Base for sources that run real video through the MediaPipe HandLandmarker.
+ * Subclasses only decide where the pixels come from.
+ *
+ * Detection runs in handDetection.worker.ts: each new video frame is
+ * snapshotted and transferred to the worker (one in flight at a time), and
+ * results are resampled to display time so a slow detection never stalls
+ * the render loop.
+ */
+export abstract class LandmarkerHandSource implements HandInputSource {
+  abstract readonly kind: HandInputKind;
+
+  protected video: HTMLVideoElement | null = null;
+  private worker: Worker | null = null;
+  private processing: Partial<HandProcessorOptions>;
+  private interpolator: HandInterpolator;
+  private unsubscribeRules: (() => void) | null = null;
+  private headListener: HeadListener | null = null;
+  private maskListener: MaskListener | null = null;
+  private isDetectorReady = false;
+  private isFrameInFlight = false;
+  private pendingRaw: RawHandFrame | undefined;
+  private lastVideoTime = -1;
+  private requestId = 0;
+  private isRunning = false;
+  // Bumped by every start and stop, so a start that was overtaken can tell
+  private runId = 0;
+
+  constructor(processing: Partial<HandProcessorOptions> = {}, interpolation: Partial<HandInterpolatorOptions> = {}) {
+    this.processing = processing;
+    this.interpolator = new HandInterpolator(interpolation);
+  }
+
+  /** Attaches media to the video element and resolves once it is playing. */
+  protected abstract attachMedia(video: HTMLVideoElement): Promise<void>;
+
+  /** Releases whatever attachMedia acquired. */
+  protected abstract detachMedia(video: HTMLVideoElement): void;
+
+  async start(onFrame: HandFrameCallback, onError: HandErrorCallback, onDetectorReady?: DetectorReadyCallback): Promise<HTMLVideoElement> {
+    const run = ++this.runId;
+    this.isRunning = true;
+    const video = createSourceVideo();
+    this.video = video;
+
+    await this.attachMedia(video);
+    // Stopped (and maybe restarted) meanwhile: stop() already detached this video
+    if (run !== this.runId) throw new Error("Input source stopped during startup");
+
+    // Landmarker loads in the background so the scene can render immediately
+    this.startWorker(onError, onDetectorReady);
+    this.startLoop(onFrame, run);
+
+    return video;
+  }
+
+  configure(processing: Partial<HandProcessorOptions>) {
+    this.processing = { ...this.processing, ...processing };
+    this.post({ type: 'configure', processing });
+  }
+
+  trackHead(listener: HeadListener | null) {
+    this.headListener = listener;
+    this.post({ type: 'face', enabled: listener !== null });
+  }
+
+  segmentPerson(listener: MaskListener | null) {
+    this.maskListener = listener;
+    this.post({ type: 'segmentation', enabled: listener !== null });
+  }
+
+  stop() {
+    this.runId++;
+    this.isRunning = false;
+    cancelAnimationFrame(this.requestId);
+    if (this.video) {
+      this.detachMedia(this.video);
+      this.video = null;
+    }
+    this.worker?.terminate();
+    this.worker = null;
+    this.unsubscribeRules?.();
+    this.unsubscribeRules = null;
+    this.isDetectorReady = false;
+    this.isFrameInFlight = false;
+    this.pendingRaw = undefined;
+    this.interpolator.reset();
+    this.lastVideoTime = -1;
+  }
+
+  private post(message: DetectionWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private startWorker(onError: HandErrorCallback, onDetectorReady?: DetectorReadyCallback) {
+    const assets = resolveMediapipeAssets();
+    // Never leave a previous worker (and its GPU landmarker) running unowned
+    this.worker?.terminate();
+    this.unsubscribeRules?.();
+    const worker = new Worker(new URL('./handDetection.worker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+
+    const fail = (message: string) => {
+      console.error("Error initializing vision:", message);
+      if (this.isRunning) onError(new Error(message));
+    };
+
+    worker.onmessage = (e: MessageEvent<DetectionWorkerResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'ready':
+          this.isDetectorReady = true;
+          onDetectorReady?.({
+            delegate: message.delegate,
+            model: `${HAND_MODEL.name}/${HAND_MODEL.variant}/${HAND_MODEL.version}`,
+            runtimeVersion: MEDIAPIPE_RUNTIME_VERSION,
+            assetBase: assets.base,
+            fallbackReason: message.fallbackReason
+          });
+          break;
+        case 'result':
+          this.isFrameInFlight = false;
+          this.interpolator.push(message.data, message.timestamp);
+          this.pendingRaw = message.raw;
+          if (message.head !== undefined) this.headListener?.(message.head, message.timestamp);
+          if (message.mask) this.maskListener?.(message.mask, message.timestamp);
+          break;
+        case 'skipped':
+          this.isFrameInFlight = false;
+          break;
+        case 'error':
+          fail(message.message);
+          break;
+        case 'faceError':
+          // Parallax is optional: report it and keep the hands running
+          console.warn("Head tracking unavailable:", message.message);
+          this.headListener?.(null, performance.now());
+          break;
+        case 'segmentationError':
+          console.warn("Person segmentation unavailable:", message.message);
+          this.maskListener?.(null, performance.now());
+          break;
+        case 'configureError':
+          console.warn("Hand count change failed:", message.message);
+          break;
+      }
+    };
+    worker.onerror = (e) => fail(e.message || "Hand detection worker failed to load");
+
+    // Custom gesture rules live on this thread; mirror them into the worker
+    const sendRules = () => this.post({ type: 'rules', rules: gestureRegistry.list() });
+    this.unsubscribeRules = gestureRegistry.subscribe(sendRules);
+
+    this.post({
+      type: 'init',
+      wasmPath: assets.wasm,
+      modelPath: assets.model,
+      faceModelPath: assets.faceModel,
+      face: this.headListener !== null,
+      segmenterModelPath: assets.segmenterModel,
+      segmentation: this.maskListener !== null,
+      processing: this.processing,
+      rules: gestureRegistry.list()
+    });
+  }
+
+  // Snapshots the current video frame and hands it to the worker
+  private async sendFrame(video: HTMLVideoElement, timestamp: number) {
+    this.isFrameInFlight = true;
+    try {
+      const frame = typeof VideoFrame !== 'undefined'
+        ? new VideoFrame(video, { timestamp: Math.round(timestamp * 1000) })
+        : await createImageBitmap(video);
+      if (!this.worker) {
+        frame.close();
+        return;
+      }
+      this.post({ type: 'frame', frame, timestamp }, [frame]);
+    } catch (err) {
+      // e.g. the video has no decodable frame yet
+      console.warn("Skipping video frame:", err);
+      this.isFrameInFlight = false;
+    }
+  }
+
+  private startLoop(onFrame: HandFrameCallback, run: number) {
+    const tick = () => {
+      const video = this.video;
+      const now = performance.now();
+      if (
+        video && this.isDetectorReady && !this.isFrameInFlight &&
+        video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.currentTime !== this.lastVideoTime
+      ) {
+        this.lastVideoTime = video.currentTime;
+        this.sendFrame(video, now);
+      }
+
+      const data = this.interpolator.sample(now);
+      if (data) {
+        // Raw landmarks accompany the first display frame after each detection
+        onFrame(data, this.pendingRaw);
+        this.pendingRaw = undefined;
+      }
+      if (this.isRunning && run === this.runId) this.requestId = requestAnimationFrame(tick);
+    };
+    tick();
+  }
+}
@@ -0,0 +1,186 @@
+import { DEFAULT_PARAMS, FluidParams } from '../types';
+
+export type MaterialId = 'glass' | 'mercury' | 'ice' | 'honey' | 'oil';
+
+/** Shading the composite shader layers over the shared refraction. All 0-1 except tint. */
+export interface MaterialShading {
+  metallic: number;     // chrome-like: desaturated, high-contrast reflection
+  frost: number;        // scattering haze over the backdrop
+  cracks: number;       // fracture lines that catch the light
+  iridescence: number;  // thin-film colour that shifts with the surface
+  tint: [number, number, number];  // multiplies the refracted backdrop
+}
+
+// The params a material owns; everything else (smear size, parallax, ...) stays the user's
+export type MaterialParamKey =
+  | 'reflectionIntensity' | 'refractionIndex' | 'distortionStrength' | 'waveHeight'
+  | 'dynamicSpeed' | 'waveSpeed' | 'waveDamping'
+  | 'stretchStiffness' | 'reboundElasticity' | 'reboundStiffness'
+  | 'smearDecayTime' | 'colorBleeding'
+  | 'fluidVelocityDissipation' | 'fluidDyeDissipation'
+  | 'membraneTearStrain';
+
+export interface MaterialPreset {
+  id: MaterialId;
+  label: string;
+  params: Pick<FluidParams, MaterialParamKey>;
+  shading: MaterialShading;
+}
+
+const MATERIAL_PARAM_KEYS: MaterialParamKey[] = [
+  'reflectionIntensity', 'refractionIndex', 'distortionStrength', 'waveHeight',
+  'dynamicSpeed', 'waveSpeed', 'waveDamping',
+  'stretchStiffness', 'reboundElasticity', 'reboundStiffness',
+  'smearDecayTime', 'colorBleeding',
+  'fluidVelocityDissipation', 'fluidDyeDissipation',
+  'membraneTearStrain',
+];
+
+const GLASS_PARAMS = Object.fromEntries(
+  MATERIAL_PARAM_KEYS.map(key => [key, DEFAULT_PARAMS[key]])
+) as Pick<FluidParams, MaterialParamKey>;
+
+const CLEAR_SHADING: MaterialShading = { metallic: 0, frost: 0, cracks: 0, iridescence: 0, tint: [1, 1, 1] };
+
+// Every preset sets every material param, so switching never leaves another material's values behind
+export const MATERIAL_PRESETS: MaterialPreset[] = [
+  {
+    id: 'glass',
+    label: 'Liquid Glass',
+    params: GLASS_PARAMS,
+    shading: CLEAR_SHADING,
+  },
+  {
+    // Heavy, fast and springy; mirrors more than it refracts
+    id: 'mercury',
+    label: 'Mercury',
+    params: {
+      ...GLASS_PARAMS,
+      reflectionIntensity: 1.8, refractionIndex: 0.12, distortionStrength: 1.0, waveHeight: 0.6,
+      dynamicSpeed: 2.2, waveSpeed: 0.55, waveDamping: 0.3,
+      stretchStiffness: 0.4, reboundElasticity: 0.95, reboundStiffness: 18,
+      colorBleeding: 0.2,
+    },
+    shading: { ...CLEAR_SHADING, metallic: 0.9, tint: [0.92, 0.95, 1.0] },
+  },
+  {
+    // Stiff and brittle: barely ripples, snaps back, frosted and cracked
+    id: 'ice',
+    label: 'Ice',
+    params: {
+      ...GLASS_PARAMS,
+      reflectionIntensity: 1.3, refractionIndex: 0.35, distortionStrength: 0.4, waveHeight: 0.25,
+      dynamicSpeed: 0.8, waveSpeed: 0.25, waveDamping: 2.5,
+      stretchStiffness: 0.95, reboundElasticity: 0.6, reboundStiffness: 25,
+      smearDecayTime: 0.09, colorBleeding: 0.2,
+      fluidVelocityDissipation: 2.5, fluidDyeDissipation: 1.5,
+      membraneTearStrain: 0.35,
+    },
+    shading: { ...CLEAR_SHADING, frost: 0.6, cracks: 0.7, tint: [0.88, 0.96, 1.05] },
+  },
+  {
+    // Viscous: slow waves, overdamped stretches that ooze back, long-lasting smears
+    id: 'honey',
+    label: 'Honey',
+    params: {
+      ...GLASS_PARAMS,
+      reflectionIntensity: 0.8, refractionIndex: 0.3, distortionStrength: 1.2, waveHeight: 0.7,
+      dynamicSpeed: 0.6, waveSpeed: 0.12, waveDamping: 2.0,
+      stretchStiffness: 0.2, reboundElasticity: 0.0, reboundStiffness: 2.5,
+      smearDecayTime: 0.015, colorBleeding: 1.4,
+      fluidVelocityDissipation: 2.0, fluidDyeDissipation: 0.3,
+      membraneTearStrain: 4.0,
+    },
+    shading: { ...CLEAR_SHADING, tint: [1.15, 0.82, 0.38] },
+  },
+  {
+    // Slick and loose; thin-film colours ride on every ripple
+    id: 'oil',
+    label: 'Oil Slick',
+    params: {
+      ...GLASS_PARAMS,
+      reflectionIntensity: 1.1, refractionIndex: 0.18, distortionStrength: 0.9, waveHeight: 0.45,
+      dynamicSpeed: 1.2, waveSpeed: 0.3, waveDamping: 0.9,
+      stretchStiffness: 0.5, reboundElasticity: 0.8,
+      colorBleeding: 1.0,
+      fluidVelocityDissipation: 0.4, fluidDyeDissipation: 0.4,
+    },
+    shading: { ...CLEAR_SHADING, iridescence: 0.85, tint: [0.75, 0.72, 0.8] },
+  },
+];
+
+export const getMaterialPreset = (id: MaterialId) =>
+  MATERIAL_PRESETS.find(preset => preset.id === id) ?? MATERIAL_PRESETS[0];
+
+/** The preset after `id`, wrapping around; for cycling with a gesture. */
+export const nextMaterialId = (id: MaterialId): MaterialId => {
+  const index = MATERIAL_PRESETS.findIndex(preset => preset.id === id);
+  return MATERIAL_PRESETS[(index + 1) % MATERIAL_PRESETS.length].id;
+};
+
+/** Reads `?material=` (e.g. mercury); unknown names fall back to glass. */
+export const readMaterialFromUrl = (search = window.location.search): MaterialId => {
+  const id = new URLSearchParams(search).get('material');
+  return MATERIAL_PRESETS.find(preset => preset.id === id)?.id ?? 'glass';
+};
+
+/** Applies a preset's params over the current ones. */
+export const applyMaterialParams = (params: FluidParams, id: MaterialId): FluidParams =>
+  ({ ...params, ...getMaterialPreset(id).params });
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Eases params and shading from whatever was on screen to a new preset.
+ * The target params come in every frame (they are App state), so edits
+ * made mid-transition are honoured once it ends.
+ */
+export class MaterialTransition {
+  private target: MaterialPreset;
+  private fromParams: Pick<FluidParams, MaterialParamKey> | null = null;
+  private fromShading: MaterialShading;
+  private elapsed: number;
+  private duration: number;
+  private output: { params: FluidParams; shading: MaterialShading };
+
+  constructor(preset: MaterialPreset, duration = 1.2) {
+    this.target = preset;
+    this.duration = duration;
+    this.fromShading = preset.shading;
+    this.elapsed = duration;
+    this.output = { params: { ...DEFAULT_PARAMS }, shading: { ...preset.shading, tint: [...preset.shading.tint] } };
+  }
+
+  /** Starts easing towards `preset` from the values last returned by update(). */
+  start(preset: MaterialPreset) {
+    if (preset.id === this.target.id) return;
+    const { params, shading } = this.output;
+    this.fromParams = Object.fromEntries(MATERIAL_PARAM_KEYS.map(key => [key, params[key]])) as Pick<FluidParams, MaterialParamKey>;
+    this.fromShading = { ...shading, tint: [...shading.tint] };
+    this.target = preset;
+    this.elapsed = 0;
+  }
+
+  /** Params and shading to render this frame. The returned object is reused between calls. */
+  update(dt: number, params: FluidParams) {
+    this.elapsed = Math.min(this.elapsed + dt, this.duration);
+    const progress = this.elapsed / this.duration;
+    // Smoothstep: no jolt at either end
+    const t = progress * progress * (3 - 2 * progress);
+    const out = this.output;
+
+    Object.assign(out.params, params);
+    if (this.fromParams && progress < 1) {
+      for (const key of MATERIAL_PARAM_KEYS) out.params[key] = lerp(this.fromParams[key], params[key], t);
+    }
+
+    const from = this.fromShading;
+    const to = this.target.shading;
+    out.shading.metallic = lerp(from.metallic, to.metallic, t);
+    out.shading.frost = lerp(from.frost, to.frost, t);
+    out.shading.cracks = lerp(from.cracks, to.cracks, t);
+    out.shading.iridescence = lerp(from.iridescence, to.iridescence, t);
+    for (let i = 0; i < 3; i++) out.shading.tint[i] = lerp(from.tint[i], to.tint[i], t);
+    return out;
+  }
+}
@@ -0,0 +1,454 @@
+import * as THREE from 'three';
+import { FluidParams, HandData } from '../types';
+import { FieldEncoding, FullscreenPass, PingPongTarget, createPassMaterial } from './PingPongTarget';
+
+/**
+ * Mass-spring membrane on the GPU, for the 'membrane' surface mode: a grid of
+ * nodes joined by structural and shear links, stepped with position-based
+ * Verlet. Each substep integrates every node, then relaxes the links for a
+ * few Jacobi passes; links stretched past the strain limit break for good.
+ *
+ * The sheet spans the screen with its border pinned to the frame. Surface
+ * space is screen uv with y up; internally x is scaled by the aspect so
+ * links are the same length on screen both ways.
+ *
+ * Textures, one texel per node:
+ * - state: xy = displacement from rest, zw = previous displacement
+ * - links: 1 where a link broke; r = right, g = up, b = up-right, a = up-left
+ * - grabs: r = grab slot + 1 (0 = free), g = how firmly that grab holds it
+ *
+ * Displacements are small and signed, so like the fluid solver this needs
+ * float or half-float render targets.
+ */
+
+// Upper bound baked into the integrate shader's uniform arrays
+export const MAX_MEMBRANE_GRABS = 16;
+
+// Nodes along the short side of the sheet; the rendered mesh has one vertex per node
+const GRID_SIZE = 48;
+
+// Fixed substeps keep the Verlet step stable under frame drops
+const SUBSTEP = 1 / 120;
+const MAX_SUBSTEPS = 4;
+
+// After a pinch ends its grab lingers this long (s); pinching again in that window leaves it pinned
+const PIN_WINDOW = 0.35;
+
+/**
+ * Maps an image point (0-1, y down, as in HandData) to surface space: the
+ * inverse of the composite's cover fit and mirror.
+ */
+export const imageToSurface = (x: number, y: number, videoAspect: number, screenAspect: number, mirror: boolean, out = new THREE.Vector2()) => {
+  const ratioX = Math.min(screenAspect / videoAspect, 1);
+  const ratioY = Math.min(videoAspect / screenAspect, 1);
+  const coverX = mirror ? 1 - x : x;
+  return out.set((coverX - (1 - ratioX) * 0.5) / ratioX, (1 - y - (1 - ratioY) * 0.5) / ratioY);
+};
+
+// Node layout shared by every pass
+const membraneCommon = `
+  uniform vec2 uGrid;      // nodes across, down
+  uniform vec2 uTexel;
+  uniform float uAspect;
+  varying vec2 vUv;
+
+  // Where the node at texel st sits when the sheet is flat (x scaled by the aspect)
+  vec2 restPos(vec2 st) {
+    return (st * uGrid - 0.5) / (uGrid - 1.0) * vec2(uAspect, 1.0);
+  }
+
+  bool onBorder(vec2 st) {
+    return any(lessThan(st, uTexel)) || any(greaterThan(st, 1.0 - uTexel));
+  }
+`;
+
+// Adds (or removes) one grab: nodes near the point join it, the closest holding firmest
+const grabShader = `
+  ${membraneCommon}
+  uniform sampler2D uGrabs;
+  uniform sampler2D uState;
+  uniform float uSlot;
+  uniform vec2 uPoint;     // aspect-scaled
+  uniform float uRadius;
+  uniform float uAssign;   // 1 = grab, 0 = let go
+
+  void main() {
+    vec2 grab = texture2D(uGrabs, vUv).rg;
+    if (uAssign > 0.5) {
+      vec2 pos = restPos(vUv) + texture2D(uState, vUv).xy;
+      float weight = smoothstep(uRadius, uRadius * 0.3, distance(pos, uPoint));
+      if (weight > grab.g) grab = vec2(uSlot + 1.0, weight);
+    } else if (abs(grab.r - (uSlot + 1.0)) < 0.5) {
+      grab = vec2(0.0);
+    }
+    gl_FragColor = vec4(grab, 0.0, 0.0);
+  }
+`;
+
+// Verlet step; grabbed nodes are carried along with their grab instead
+const integrateShader = `
+  #define MAX_GRABS ${MAX_MEMBRANE_GRABS}
+  ${membraneCommon}
+  uniform sampler2D uState;
+  uniform sampler2D uGrabs;
+  uniform vec2 uGrabDelta[MAX_GRABS];  // how far each grab moved this substep
+  uniform float uDamping;              // velocity kept per substep
+  uniform float uTether;               // pull home per substep^2; holds torn-off pieces
+
+  void main() {
+    vec4 state = texture2D(uState, vUv);
+    vec2 pos = state.xy;
+    vec2 next = pos + (pos - state.zw) * uDamping - pos * uTether;
+
+    vec2 grab = texture2D(uGrabs, vUv).rg;
+    if (grab.r > 0.5) {
+      vec2 delta = vec2(0.0);
+      for (int i = 0; i < MAX_GRABS; i++) {
+        if (abs(grab.r - float(i + 1)) < 0.5) delta = uGrabDelta[i];
+      }
+      next = mix(next, pos + delta, grab.g);
+    }
+
+    if (onBorder(vUv)) next = vec2(0.0);
+    gl_FragColor = vec4(next, pos);
+  }
+`;
+
+// One Jacobi pass over every intact link: each end takes half the correction, averaged per node
+const relaxShader = `
+  ${membraneCommon}
+  uniform sampler2D uState;
+  uniform sampler2D uLinks;
+  uniform sampler2D uGrabs;
+  uniform float uRelaxation;  // over-relaxation of the averaged correction; higher = stiffer
+
+  void relax(vec2 offset, float broken, vec2 pos, inout vec2 correction, inout float count) {
+    vec2 st = vUv + offset * uTexel;
+    if (broken > 0.5 || any(lessThan(st, vec2(0.0))) || any(greaterThan(st, vec2(1.0)))) return;
+    vec2 d = restPos(st) + texture2D(uState, st).xy - pos;
+    float len = length(d);
+    float rest = length(restPos(st) - restPos(vUv));
+    if (len > 1e-6) correction += d * (1.0 - rest / len) * 0.5;
+    count += 1.0;
+  }
+
+  void main() {
+    vec4 state = texture2D(uState, vUv);
+    if (onBorder(vUv)) {
+      gl_FragColor = state;
+      return;
+    }
+    vec2 pos = restPos(vUv) + state.xy;
+    vec4 own = texture2D(uLinks, vUv);
+    vec2 correction = vec2(0.0);
+    float count = 0.0;
+    relax(vec2(1.0, 0.0), own.r, pos, correction, count);
+    relax(vec2(0.0, 1.0), own.g, pos, correction, count);
+    relax(vec2(1.0, 1.0), own.b, pos, correction, count);
+    relax(vec2(-1.0, 1.0), own.a, pos, correction, count);
+    relax(vec2(-1.0, 0.0), texture2D(uLinks, vUv - vec2(uTexel.x, 0.0)).r, pos, correction, count);
+    relax(vec2(0.0, -1.0), texture2D(uLinks, vUv - vec2(0.0, uTexel.y)).g, pos, correction, count);
+    relax(vec2(-1.0, -1.0), texture2D(uLinks, vUv - uTexel).b, pos, correction, count);
+    relax(vec2(1.0, -1.0), texture2D(uLinks, vUv + vec2(uTexel.x, -uTexel.y)).a, pos, correction, count);
+
+    // Grabbed nodes go where the hand puts them
+    float held = texture2D(uGrabs, vUv).g;
+    vec2 moved = correction / max(count, 1.0) * uRelaxation * (1.0 - held);
+    gl_FragColor = vec4(state.xy + moved, state.zw);
+  }
+`;
+
+// Breaks the links this node owns once they stretch past the limit
+const tearShader = `
+  ${membraneCommon}
+  uniform sampler2D uState;
+  uniform sampler2D uLinks;
+  uniform float uTearStrain;
+
+  float tear(vec2 offset, float broken, vec2 pos) {
+    vec2 st = vUv + offset * uTexel;
+    if (broken > 0.5 || any(greaterThan(st, vec2(1.0))) || st.x < 0.0) return broken;
+    float len = length(restPos(st) + texture2D(uState, st).xy - pos);
+    float rest = length(restPos(st) - restPos(vUv));
+    return len > rest * (1.0 + uTearStrain) ? 1.0 : 0.0;
+  }
+
+  void main() {
+    vec2 pos = restPos(vUv) + texture2D(uState, vUv).xy;
+    vec4 own = texture2D(uLinks, vUv);
+    gl_FragColor = vec4(
+      tear(vec2(1.0, 0.0), own.r, pos),
+      tear(vec2(0.0, 1.0), own.g, pos),
+      tear(vec2(1.0, 1.0), own.b, pos),
+      tear(vec2(-1.0, 1.0), own.a, pos)
+    );
+  }
+`;
+
+interface GrabSlot {
+  id: number;
+  target: THREE.Vector2;  // surface space, where the grab is now
+  applied: THREE.Vector2; // where the sheet was last moved to
+}
+
+// Queued until the next step, which has a renderer to run the grab pass with
+interface GrabChange {
+  slot: number;
+  point: THREE.Vector2 | null;  // null = let go
+}
+
+export class MembraneSolver {
+  private state: PingPongTarget;
+  private links: PingPongTarget;
+  private grabs: PingPongTarget;
+  private screen = new FullscreenPass();
+  private grabPass: THREE.ShaderMaterial;
+  private integratePass: THREE.ShaderMaterial;
+  private relaxPass: THREE.ShaderMaterial;
+  private tearPass: THREE.ShaderMaterial;
+  private slots: (GrabSlot | null)[] = new Array(MAX_MEMBRANE_GRABS).fill(null);
+  private changes: GrabChange[] = [];
+
+  /** Nodes across and down; the mesh needs one vertex per node. */
+  readonly gridWidth: number;
+  readonly gridHeight: number;
+  /** Screen width / height the sheet was laid out for. */
+  readonly aspect: number;
+
+  constructor(aspect: number, encoding: Exclude<FieldEncoding, 'byte'> = 'float') {
+    const width = Math.round(GRID_SIZE * Math.max(aspect, 1));
+    const height = Math.round(GRID_SIZE / Math.min(aspect, 1));
+    this.gridWidth = width;
+    this.gridHeight = height;
+    this.aspect = aspect;
+    this.state = new PingPongTarget(width, height, { encoding });
+    this.links = new PingPongTarget(width, height, { encoding });
+    this.grabs = new PingPongTarget(width, height, { encoding });
+
+    const layout = () => ({
+      uGrid: { value: new THREE.Vector2(width, height) },
+      uTexel: { value: new THREE.Vector2(1 / width, 1 / height) },
+      uAspect: { value: aspect },
+    });
+    this.grabPass = createPassMaterial(grabShader, {
+      ...layout(),
+      uGrabs: { value: null },
+      uState: { value: null },
+      uSlot: { value: 0 },
+      uPoint: { value: new THREE.Vector2() },
+      uRadius: { value: 0.1 },
+      uAssign: { value: 1 },
+    });
+    this.integratePass = createPassMaterial(integrateShader, {
+      ...layout(),
+      uState: { value: null },
+      uGrabs: { value: null },
+      uGrabDelta: { value: Array.from({ length: MAX_MEMBRANE_GRABS }, () => new THREE.Vector2()) },
+      uDamping: { value: 1 },
+      uTether: { value: 0 },
+    });
+    this.relaxPass = createPassMaterial(relaxShader, {
+      ...layout(),
+      uState: { value: null },
+      uLinks: { value: null },
+      uGrabs: { value: null },
+      uRelaxation: { value: 1 },
+    });
+    this.tearPass = createPassMaterial(tearShader, {
+      ...layout(),
+      uState: { value: null },
+      uLinks: { value: null },
+      uTearStrain: { value: 1 },
+    });
+  }
+
+  /** Displacement (xy, aspect-scaled) per node, for the mesh's vertex shader. */
+  get stateTexture() {
+    return this.state.read.texture;
+  }
+
+  /** Broken links per node (see the class comment). */
+  get linksTexture() {
+    return this.links.read.texture;
+  }
+
+  /**
+   * Grabs the sheet at a surface point (y up); `id` is the caller's handle.
+   * Returns false when every grab slot is in use.
+   */
+  grab(id: number, x: number, y: number) {
+    const slot = this.slots.indexOf(null);
+    if (slot < 0) return false;
+    const point = new THREE.Vector2(x, y);
+    this.slots[slot] = { id, target: point.clone(), applied: point.clone() };
+    this.changes.push({ slot, point });
+    return true;
+  }
+
+  /** Moves a grab; the sheet follows on the next step. */
+  moveGrab(id: number, x: number, y: number) {
+    this.slots.find(slot => slot?.id === id)?.target.set(x, y);
+  }
+
+  release(id: number) {
+    const slot = this.slots.findIndex(s => s?.id === id);
+    if (slot < 0) return;
+    this.slots[slot] = null;
+    this.changes.push({ slot, point: null });
+  }
+
+  step(renderer: THREE.WebGLRenderer, dt: number, params: FluidParams) {
+    if (dt <= 0) return;
+    const previousTarget = renderer.getRenderTarget();
+    this.state.prepare(renderer);
+    this.links.prepare(renderer);
+    this.grabs.prepare(renderer);
+
+    this.applyGrabChanges(renderer, params);
+
+    const substeps = Math.min(Math.ceil(dt / SUBSTEP), MAX_SUBSTEPS);
+    const h = dt / substeps;
+    // Elastic sheets keep swinging after a release; inelastic ones settle at once
+    const damping = Math.exp(-(1.05 - params.reboundElasticity) * 4.0 * h);
+
+    const integrate = this.integratePass.uniforms;
+    const deltas = integrate.uGrabDelta.value as THREE.Vector2[];
+    integrate.uDamping.value = damping;
+    integrate.uTether.value = params.reboundStiffness * 0.3 * h * h;
+    this.relaxPass.uniforms.uRelaxation.value = 0.5 + 1.3 * params.stretchStiffness;
+    this.tearPass.uniforms.uTearStrain.value = params.membraneTearStrain;
+
+    for (let i = 0; i < substeps; i++) {
+      // Each grab moves an even share of this frame's travel per substep
+      this.slots.forEach((slot, j) => {
+        deltas[j].set(0, 0);
+        if (!slot) return;
+        const remaining = substeps - i;
+        deltas[j].subVectors(slot.target, slot.applied).divideScalar(remaining);
+        slot.applied.add(deltas[j]);
+        deltas[j].x *= this.aspect;
+      });
+
+      integrate.uState.value = this.state.read.texture;
+      integrate.uGrabs.value = this.grabs.read.texture;
+      this.screen.render(renderer, this.integratePass, this.state.write);
+      this.state.swap();
+
+      const relax = this.relaxPass.uniforms;
+      relax.uLinks.value = this.links.read.texture;
+      relax.uGrabs.value = this.grabs.read.texture;
+      for (let j = 0; j < params.membraneIterations; j++) {
+        relax.uState.value = this.state.read.texture;
+        this.screen.render(renderer, this.relaxPass, this.state.write);
+        this.state.swap();
+      }
+
+      if (params.membraneTearStrain > 0) {
+        this.tearPass.uniforms.uState.value = this.state.read.texture;
+        this.tearPass.uniforms.uLinks.value = this.links.read.texture;
+        this.screen.render(renderer, this.tearPass, this.links.write);
+        this.links.swap();
+      }
+    }
+
+    renderer.setRenderTarget(previousTarget);
+  }
+
+  /** Flattens the sheet, mends every tear and lets go of every grab (clap). */
+  clear(renderer: THREE.WebGLRenderer) {
+    this.state.clear(renderer);
+    this.links.clear(renderer);
+    this.grabs.clear(renderer);
+    this.slots.fill(null);
+    this.changes = [];
+  }
+
+  dispose() {
+    this.state.dispose();
+    this.links.dispose();
+    this.grabs.dispose();
+    this.screen.dispose();
+    this.grabPass.dispose();
+    this.integratePass.dispose();
+    this.relaxPass.dispose();
+    this.tearPass.dispose();
+  }
+
+  private applyGrabChanges(renderer: THREE.WebGLRenderer, params: FluidParams) {
+    const uniforms = this.grabPass.uniforms;
+    // grabRadius is the soft stretch's reach; a membrane grab only needs to take hold
+    uniforms.uRadius.value = params.grabRadius * 0.3;
+    for (const change of this.changes) {
+      uniforms.uSlot.value = change.slot;
+      uniforms.uAssign.value = change.point ? 1 : 0;
+      if (change.point) uniforms.uPoint.value.set(change.point.x * this.aspect, change.point.y);
+      uniforms.uGrabs.value = this.grabs.read.texture;
+      uniforms.uState.value = this.state.read.texture;
+      this.screen.render(renderer, this.grabPass, this.grabs.write);
+      this.grabs.swap();
+    }
+    this.changes = [];
+  }
+}
+
+/**
+ * Pinches as membrane grabs: a pinching hand holds one grab and drags it.
+ * Pinching again right after letting go leaves the previous grab pinned
+ * where it was, so one hand can fix the sheet in several places and tug it
+ * into folds. Pins last until the next clap.
+ */
+export class MembranePinches {
+  private held = new Map<number, number>();            // hand slot -> grab id
+  private letGo = new Map<number, { grab: number; remaining: number }>();
+  private starting = new Set<number>();
+  private nextId = 0;
+  private point = new THREE.Vector2();
+
+  constructor(private membrane: MembraneSolver) {}
+
+  // Driven by PINCH gestureStart/gestureEnd events; the grab is placed on the next update
+  start(hand: number) {
+    // A quick re-pinch: the grab just released stays where it is
+    this.letGo.delete(hand);
+    this.starting.add(hand);
+  }
+
+  end(hand: number) {
+    this.starting.delete(hand);
+    const grab = this.held.get(hand);
+    if (grab === undefined) return;
+    this.held.delete(hand);
+    this.letGo.set(hand, { grab, remaining: PIN_WINDOW });
+  }
+
+  /** `toSurface` maps a hand's image position to surface space. */
+  update(hands: HandData, dt: number, toSurface: (x: number, y: number, out: THREE.Vector2) => THREE.Vector2) {
+    this.starting.forEach(hand => {
+      if (!hands[hand]) return;
+      const { x, y } = toSurface(hands[hand].x, hands[hand].y, this.point);
+      const id = this.nextId++;
+      if (this.membrane.grab(id, x, y)) this.held.set(hand, id);
+    });
+    this.starting.clear();
+
+    this.held.forEach((grab, hand) => {
+      if (!hands[hand]) return;
+      const { x, y } = toSurface(hands[hand].x, hands[hand].y, this.point);
+      this.membrane.moveGrab(grab, x, y);
+    });
+
+    this.letGo.forEach((pending, hand) => {
+      pending.remaining -= dt;
+      if (pending.remaining > 0) return;
+      this.membrane.release(pending.grab);
+      this.letGo.delete(hand);
+    });
+  }
+
+  /** Forgets every grab and pin; the solver's clear() drops them on the GPU side. */
+  reset() {
+    this.held.clear();
+    this.letGo.clear();
+    this.starting.clear();
+  }
+}
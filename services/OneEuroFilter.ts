@@ -0,0 +1,71 @@
+/**
+ * One Euro filter (Casiez et al., CHI 2012): a low-pass whose cutoff rises
+ * with the signal's speed, so slow movement is smoothed hard and fast
+ * movement stays responsive. Driven by timestamps, not frame counts, so it
+ * behaves the same at any camera frame rate.
+ */
+export interface OneEuroConfig {
+  minCutoff: number;  // Hz; lower = smoother at rest, more lag
+  beta: number;       // cutoff gain per unit/s of speed; higher = less lag when moving
+  dCutoff: number;    // Hz; cutoff for the speed estimate itself
+}
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime = 0;
+
+  constructor(public config: OneEuroConfig) {}
+
+  reset(value: number | null = null, time = 0) {
+    this.value = value;
+    this.derivative = 0;
+    this.lastTime = time;
+  }
+
+  get current() {
+    return this.value ?? 0;
+  }
+
+  /** Filters a sample taken at `time` (seconds). */
+  filter(x: number, time: number) {
+    const dt = time - this.lastTime;
+    if (this.value === null || dt <= 0) {
+      // First sample, or the clock went backwards (e.g. a looping video)
+      if (this.value === null) this.value = x;
+      this.lastTime = time;
+      return this.value;
+    }
+    this.lastTime = time;
+
+    const rawDerivative = (x - this.value) / dt;
+    this.derivative += (rawDerivative - this.derivative) * smoothingFactor(dt, this.config.dCutoff);
+
+    const cutoff = this.config.minCutoff + this.config.beta * Math.abs(this.derivative);
+    this.value += (x - this.value) * smoothingFactor(dt, cutoff);
+    return this.value;
+  }
+}
+
+/** One Euro settings for each quantity the landmark processor tracks. */
+export interface HandFilterSettings {
+  position: OneEuroConfig;   // hand anchor x/y
+  depth: OneEuroConfig;      // z (proximity)
+  indexTip: OneEuroConfig;   // index tip x/y
+  velocity: OneEuroConfig;   // index tip velocity, units per second
+  lostDepthDecay: number;    // seconds for z to fall back to 0 once the hand is lost
+}
+
+// Tuned to roughly match the previous fixed-lerp feel at 30 fps
+export const DEFAULT_FILTER_SETTINGS: HandFilterSettings = {
+  position: { minCutoff: 1.5, beta: 2.0, dCutoff: 1.0 },
+  depth: { minCutoff: 0.5, beta: 0.5, dCutoff: 1.0 },
+  indexTip: { minCutoff: 3.0, beta: 5.0, dCutoff: 1.0 },
+  velocity: { minCutoff: 4.0, beta: 0.2, dCutoff: 1.0 },
+  lostDepthDecay: 0.3,
+};
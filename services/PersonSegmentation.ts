@@ -0,0 +1,69 @@
+/**
+ * Which part of the frame the glass effects apply to.
+ * - everywhere: the whole frame, segmentation off
+ * - background: only behind the person; the person stays clean
+ * - person: only on the person; the room stays clean
+ * - hands: everywhere except the hands, which stay crisp on top of the glass
+ */
+export type SegmentationMode = 'everywhere' | 'background' | 'person' | 'hands';
+
+export const SEGMENTATION_MODES: { mode: SegmentationMode; label: string }[] = [
+  { mode: 'everywhere', label: 'Full frame' },
+  { mode: 'background', label: 'Behind me' },
+  { mode: 'person', label: 'On me' },
+  { mode: 'hands', label: 'Crisp hands' },
+];
+
+/** Person confidence, 0-255, row 0 at the top of the image. */
+export interface SegmentationMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type MaskListener = (mask: SegmentationMask | null, timestamp: number) => void;
+
+// Masks come back at video resolution; the shader only needs a soft matte
+const MAX_MASK_SIZE = 256;
+
+/** Box-downsamples a confidence mask to at most MAX_MASK_SIZE on its long side. */
+export const downsampleMask = (values: Float32Array, width: number, height: number): SegmentationMask => {
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / MAX_MASK_SIZE));
+  const outWidth = Math.ceil(width / step);
+  const outHeight = Math.ceil(height / step);
+  const data = new Uint8Array(outWidth * outHeight);
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      let sum = 0;
+      let count = 0;
+      for (let y = oy * step; y < Math.min((oy + 1) * step, height); y++) {
+        for (let x = ox * step; x < Math.min((ox + 1) * step, width); x++) {
+          sum += values[y * width + x];
+          count++;
+        }
+      }
+      data[oy * outWidth + ox] = Math.round(Math.min(Math.max(sum / count, 0), 1) * 255);
+    }
+  }
+  return { width: outWidth, height: outHeight, data };
+};
+
+/**
+ * Latest mask from the segmentation pass, read by FluidScene every frame.
+ * `version` bumps on each new mask so the texture is only re-uploaded when
+ * something changed.
+ */
+export class PersonMask {
+  mask: SegmentationMask | null = null;
+  version = 0;
+
+  update(mask: SegmentationMask | null) {
+    this.mask = mask;
+    this.version++;
+  }
+
+  reset() {
+    this.update(null);
+  }
+}
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+
+/**
+ * How simulation fields are stored, best first:
+ * - float: 32-bit float targets (EXT_color_buffer_float + linear filtering)
+ * - half: 16-bit float targets, filterable everywhere WebGL2 runs
+ * - byte: plain RGBA8; signed fields are packed into 0..1 (see fieldCodec)
+ */
+export type FieldEncoding = 'float' | 'half' | 'byte';
+
+const TEXTURE_TYPES: Record<FieldEncoding, THREE.TextureDataType> = {
+  float: THREE.FloatType,
+  half: THREE.HalfFloatType,
+  byte: THREE.UnsignedByteType,
+};
+
+/** Picks the most precise encoding this GPU can render to and filter. */
+export const detectFieldEncoding = (renderer: THREE.WebGLRenderer): FieldEncoding => {
+  const extensions = renderer.extensions;
+  if (extensions.has('EXT_color_buffer_float')) {
+    // Float targets without linear filtering would sample blocky; half floats always filter
+    return extensions.has('OES_texture_float_linear') ? 'float' : 'half';
+  }
+  if (extensions.has('EXT_color_buffer_half_float')) return 'half';
+  return 'byte';
+};
+
+/**
+ * GLSL helpers every pass that reads or writes a signed field goes through.
+ * Float encodings store values as-is; bytes map -range..range onto 0..1.
+ */
+export const fieldCodec = (encoding: FieldEncoding, range: number) => encoding === 'byte'
+  ? `
+    vec4 decodeField(vec4 v) { return (v * 2.0 - 1.0) * ${range.toFixed(4)}; }
+    vec4 encodeField(vec4 v) { return clamp(v / ${range.toFixed(4)}, -1.0, 1.0) * 0.5 + 0.5; }
+  `
+  : `
+    vec4 decodeField(vec4 v) { return v; }
+    vec4 encodeField(vec4 v) { return v; }
+  `;
+
+export interface PingPongOptions {
+  encoding?: FieldEncoding;
+  // Signed fields are packed around 0.5 in byte targets, so "zero" is mid-grey
+  signed?: boolean;
+}
+
+/** Read/write pair of render targets for GPU passes that feed back into themselves. */
+export class PingPongTarget {
+  read: THREE.WebGLRenderTarget;
+  write: THREE.WebGLRenderTarget;
+  readonly encoding: FieldEncoding;
+  private signed: boolean;
+  private needsClear = true;
+
+  constructor(width: number, height: number, { encoding = 'float', signed = false }: PingPongOptions = {}) {
+    this.encoding = encoding;
+    this.signed = signed;
+    const options = {
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      format: THREE.RGBAFormat,
+      type: TEXTURE_TYPES[encoding],
+      depthBuffer: false,
+    };
+    this.read = new THREE.WebGLRenderTarget(width, height, options);
+    this.write = new THREE.WebGLRenderTarget(width, height, options);
+  }
+
+  get width() {
+    return this.read.width;
+  }
+
+  get height() {
+    return this.read.height;
+  }
+
+  swap() {
+    const temp = this.read;
+    this.read = this.write;
+    this.write = temp;
+  }
+
+  /** Reallocates both buffers; their contents are lost and reset to zero on the next prepare(). */
+  setSize(width: number, height: number) {
+    if (width === this.width && height === this.height) return;
+    this.read.setSize(width, height);
+    this.write.setSize(width, height);
+    this.needsClear = true;
+  }
+
+  /** Call before a frame's first pass: zeroes fresh or resized buffers. */
+  prepare(renderer: THREE.WebGLRenderer) {
+    if (this.needsClear) this.clear(renderer);
+  }
+
+  /** Zeroes both buffers. */
+  clear(renderer: THREE.WebGLRenderer) {
+    const previousTarget = renderer.getRenderTarget();
+    const previousColor = renderer.getClearColor(new THREE.Color());
+    const previousAlpha = renderer.getClearAlpha();
+    const zero = this.encoding === 'byte' && this.signed ? 0.5 : 0;
+    // The clear colour is converted for whichever target is bound when it is set
+    renderer.setRenderTarget(this.read);
+    renderer.setClearColor(new THREE.Color(zero, zero, zero), zero);
+    renderer.clear();
+    renderer.setRenderTarget(this.write);
+    renderer.clear();
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(previousColor, previousAlpha);
+    this.needsClear = false;
+  }
+
+  dispose() {
+    this.read.dispose();
+    this.write.dispose();
+  }
+}
+
+// Shared by the full-screen simulation passes
+export const fullscreenVertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+/**
+ * Draws one full-screen material at a time into a render target. Solvers own
+ * one each and switch materials per pass.
+ */
+export class FullscreenPass {
+  private scene = new THREE.Scene();
+  private camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  private quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+
+  constructor() {
+    this.scene.add(this.quad);
+  }
+
+  render(renderer: THREE.WebGLRenderer, material: THREE.Material, target: THREE.WebGLRenderTarget | null) {
+    this.quad.material = material;
+    renderer.setRenderTarget(target);
+    renderer.render(this.scene, this.camera);
+  }
+
+  dispose() {
+    this.quad.geometry.dispose();
+  }
+}
+
+export const createPassMaterial = (fragmentShader: string, uniforms: Record<string, THREE.IUniform>) =>
+  new THREE.ShaderMaterial({ vertexShader: fullscreenVertexShader, fragmentShader, uniforms, depthTest: false, depthWrite: false });
@@ -0,0 +1,407 @@
+import * as THREE from 'three';
+import { FullscreenPass, createPassMaterial } from './PingPongTarget';
+
+/**
+ * Ordered post-processing after the composite pass. The composite renders
+ * into an offscreen target with surface curvature (0-1) in alpha; each
+ * enabled pass reads the previous result and the last one draws to the
+ * screen. Passes keep alpha intact so later ones can still use curvature.
+ */
+
+export interface PostParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** What every pass gets besides its input. */
+export interface PostFrame {
+  renderer: THREE.WebGLRenderer;
+  screen: FullscreenPass;
+  time: number;
+  width: number;   // drawing buffer pixels
+  height: number;
+  type: THREE.TextureDataType;  // for any intermediate targets a pass allocates
+}
+
+export interface PostPass {
+  readonly id: string;
+  readonly label: string;
+  enabled: boolean;
+  params: Record<string, number>;
+  readonly paramSpecs: PostParamSpec[];
+  render(frame: PostFrame, input: THREE.Texture, output: THREE.WebGLRenderTarget | null): void;
+  dispose(): void;
+}
+
+interface ShaderPassOptions {
+  id: string;
+  label: string;
+  enabled?: boolean;
+  params: (PostParamSpec & { value: number })[];
+  // GLSL body of `vec4 effect(vec4 color, vec2 uv)`; params are uniforms named u + Key
+  effect: string;
+}
+
+const uniformName = (key: string) => `u${key[0].toUpperCase()}${key.slice(1)}`;
+
+/** A single full-screen shader; enough for every pass except bloom. */
+export const createShaderPass = ({ id, label, enabled = true, params, effect }: ShaderPassOptions): PostPass => {
+  const uniforms: Record<string, THREE.IUniform> = {
+    uInput: { value: null },
+    uTime: { value: 0 },
+    uResolution: { value: new THREE.Vector2(1, 1) },
+  };
+  params.forEach(p => { uniforms[uniformName(p.key)] = { value: p.value }; });
+
+  const material = createPassMaterial(`
+    uniform sampler2D uInput;
+    uniform float uTime;
+    uniform vec2 uResolution;
+    ${params.map(p => `uniform float ${uniformName(p.key)};`).join('\n    ')}
+    varying vec2 vUv;
+
+    ${effect}
+
+    void main() {
+      gl_FragColor = effect(texture2D(uInput, vUv), vUv);
+    }
+  `, uniforms);
+
+  return {
+    id,
+    label,
+    enabled,
+    params: Object.fromEntries(params.map(p => [p.key, p.value])),
+    paramSpecs: params.map(({ value, ...spec }) => spec),
+    render(frame, input, output) {
+      uniforms.uInput.value = input;
+      uniforms.uTime.value = frame.time;
+      uniforms.uResolution.value.set(frame.width, frame.height);
+      for (const key in this.params) uniforms[uniformName(key)].value = this.params[key];
+      frame.screen.render(frame.renderer, material, output);
+    },
+    dispose() {
+      material.dispose();
+    },
+  };
+};
+
+// --- BUILT-IN PASSES ---
+
+// Rippling light network focused by the glass, strongest where it bends most
+export const createCausticsPass = () => createShaderPass({
+  id: 'caustics',
+  label: 'Caustics',
+  params: [
+    { key: 'intensity', label: 'Intensity', min: 0, max: 2, step: 0.05, value: 0.6 },
+    { key: 'scale', label: 'Scale', min: 2, max: 30, step: 0.5, value: 12 },
+    { key: 'speed', label: 'Speed', min: 0, max: 3, step: 0.05, value: 0.8 },
+  ],
+  effect: `
+    float causticLayer(vec2 p, float t) {
+      vec2 i = p;
+      float c = 1.0;
+      for (int n = 0; n < 4; n++) {
+        float tn = t * (1.0 - 3.5 / float(n + 1));
+        i = p + vec2(cos(tn - i.x) + sin(tn + i.y), sin(tn - i.y) + cos(tn + i.x));
+        c += 1.0 / length(vec2(p.x / (sin(i.x + tn) / 0.005), p.y / (cos(i.y + tn) / 0.005)));
+      }
+      c /= 4.0;
+      c = 1.17 - pow(c, 1.4);
+      return pow(abs(c), 8.0);
+    }
+
+    vec4 effect(vec4 color, vec2 uv) {
+      vec2 p = uv * vec2(uResolution.x / uResolution.y, 1.0) * uScale;
+      float light = clamp(causticLayer(p, uTime * uSpeed), 0.0, 1.0);
+      float curvature = color.a;
+      return vec4(color.rgb + vec3(0.85, 0.95, 1.0) * light * curvature * uIntensity, color.a);
+    }
+  `,
+});
+
+export const createGradePass = () => createShaderPass({
+  id: 'grade',
+  label: 'Colour Grade',
+  params: [
+    { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05, value: 0 },
+    { key: 'contrast', label: 'Contrast', min: 0.5, max: 1.5, step: 0.01, value: 1.05 },
+    { key: 'saturation', label: 'Saturation', min: 0, max: 2, step: 0.01, value: 1.1 },
+    { key: 'temperature', label: 'Temperature', min: -1, max: 1, step: 0.01, value: -0.1 },
+  ],
+  effect: `
+    vec4 effect(vec4 color, vec2 uv) {
+      vec3 c = color.rgb * exp2(uExposure);
+      // Warm pushes red up and blue down; cool the reverse
+      c *= vec3(1.0 + uTemperature * 0.1, 1.0, 1.0 - uTemperature * 0.1);
+      float luma = dot(c, vec3(0.2126, 0.7152, 0.0722));
+      c = mix(vec3(luma), c, uSaturation);
+      c = (c - 0.5) * uContrast + 0.5;
+      return vec4(max(c, 0.0), color.a);
+    }
+  `,
+});
+
+export const createVignettePass = () => createShaderPass({
+  id: 'vignette',
+  label: 'Vignette',
+  params: [
+    { key: 'amount', label: 'Amount', min: 0, max: 1, step: 0.01, value: 0.45 },
+    { key: 'softness', label: 'Softness', min: 0.05, max: 1, step: 0.01, value: 0.5 },
+  ],
+  effect: `
+    vec4 effect(vec4 color, vec2 uv) {
+      vec2 d = (uv - 0.5) * vec2(uResolution.x / uResolution.y, 1.0);
+      float edge = smoothstep(0.8, 0.8 - uSoftness, length(d));
+      return vec4(color.rgb * mix(1.0 - uAmount, 1.0, edge), color.a);
+    }
+  `,
+});
+
+export const createGrainPass = () => createShaderPass({
+  id: 'grain',
+  label: 'Film Grain',
+  params: [
+    { key: 'amount', label: 'Amount', min: 0, max: 0.3, step: 0.005, value: 0.05 },
+    { key: 'size', label: 'Size', min: 1, max: 4, step: 0.1, value: 1.5 },
+  ],
+  effect: `
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    vec4 effect(vec4 color, vec2 uv) {
+      vec2 cell = floor(uv * uResolution / uSize);
+      float noise = hash(cell + fract(uTime * 13.0) * 100.0) - 0.5;
+      // Grain shows most in the midtones, like film
+      float luma = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+      float response = 1.0 - abs(luma - 0.5) * 1.5;
+      return vec4(color.rgb + noise * uAmount * response, color.a);
+    }
+  `,
+});
+
+const brightShader = `
+  uniform sampler2D uInput;
+  uniform float uThreshold;
+  varying vec2 vUv;
+
+  void main() {
+    vec4 color = texture2D(uInput, vUv);
+    float luma = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+    // Glass highlights (high curvature) bloom even when they are not the brightest pixels
+    float weight = max(smoothstep(uThreshold, uThreshold + 0.2, luma), color.a * 0.5);
+    gl_FragColor = vec4(color.rgb * weight, 1.0);
+  }
+`;
+
+const blurShader = `
+  uniform sampler2D uInput;
+  uniform vec2 uDirection;  // texel step along the blur axis
+  varying vec2 vUv;
+
+  void main() {
+    // 9-tap Gaussian, sigma ~2 texels
+    vec3 sum = texture2D(uInput, vUv).rgb * 0.2270;
+    sum += (texture2D(uInput, vUv + uDirection * 1.3846).rgb + texture2D(uInput, vUv - uDirection * 1.3846).rgb) * 0.3162;
+    sum += (texture2D(uInput, vUv + uDirection * 3.2308).rgb + texture2D(uInput, vUv - uDirection * 3.2308).rgb) * 0.0703;
+    gl_FragColor = vec4(sum, 1.0);
+  }
+`;
+
+const bloomCombineShader = `
+  uniform sampler2D uInput;
+  uniform sampler2D uBloom;
+  uniform float uStrength;
+  varying vec2 vUv;
+
+  void main() {
+    vec4 color = texture2D(uInput, vUv);
+    gl_FragColor = vec4(color.rgb + texture2D(uBloom, vUv).rgb * uStrength, color.a);
+  }
+`;
+
+/** Bright-pass, separable blur at quarter resolution, additive combine. */
+export const createBloomPass = (): PostPass => {
+  let ping: THREE.WebGLRenderTarget | null = null;
+  let pong: THREE.WebGLRenderTarget | null = null;
+  const bright = createPassMaterial(brightShader, { uInput: { value: null }, uThreshold: { value: 0.7 } });
+  const blur = createPassMaterial(blurShader, { uInput: { value: null }, uDirection: { value: new THREE.Vector2() } });
+  const combine = createPassMaterial(bloomCombineShader, { uInput: { value: null }, uBloom: { value: null }, uStrength: { value: 0.8 } });
+
+  return {
+    id: 'bloom',
+    label: 'Bloom',
+    enabled: true,
+    params: { strength: 0.8, threshold: 0.7, radius: 1.5 },
+    paramSpecs: [
+      { key: 'strength', label: 'Strength', min: 0, max: 3, step: 0.05 },
+      { key: 'threshold', label: 'Threshold', min: 0, max: 1.5, step: 0.01 },
+      { key: 'radius', label: 'Radius', min: 0.5, max: 4, step: 0.1 },
+    ],
+    render(frame, input, output) {
+      const width = Math.max(1, Math.round(frame.width / 4));
+      const height = Math.max(1, Math.round(frame.height / 4));
+      if (!ping || !pong || ping.texture.type !== frame.type) {
+        ping?.dispose();
+        pong?.dispose();
+        const options = { type: frame.type, depthBuffer: false, minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter };
+        ping = new THREE.WebGLRenderTarget(width, height, options);
+        pong = new THREE.WebGLRenderTarget(width, height, options);
+      } else if (ping.width !== width || ping.height !== height) {
+        ping.setSize(width, height);
+        pong.setSize(width, height);
+      }
+
+      bright.uniforms.uInput.value = input;
+      bright.uniforms.uThreshold.value = this.params.threshold;
+      frame.screen.render(frame.renderer, bright, ping);
+
+      // Two blur rounds widen the kernel without more taps per pass
+      for (let round = 0; round < 2; round++) {
+        const spread = this.params.radius * (round + 1);
+        blur.uniforms.uInput.value = ping.texture;
+        blur.uniforms.uDirection.value.set(spread / width, 0);
+        frame.screen.render(frame.renderer, blur, pong);
+        blur.uniforms.uInput.value = pong.texture;
+        blur.uniforms.uDirection.value.set(0, spread / height);
+        frame.screen.render(frame.renderer, blur, ping);
+      }
+
+      combine.uniforms.uInput.value = input;
+      combine.uniforms.uBloom.value = ping.texture;
+      combine.uniforms.uStrength.value = this.params.strength;
+      frame.screen.render(frame.renderer, combine, output);
+    },
+    dispose() {
+      ping?.dispose();
+      pong?.dispose();
+      ping = pong = null;
+      [bright, blur, combine].forEach(material => material.dispose());
+    },
+  };
+};
+
+export const createDefaultPasses = (): PostPass[] => [
+  createCausticsPass(),
+  createBloomPass(),
+  createGradePass(),
+  createVignettePass(),
+  createGrainPass(),
+];
+
+export type PostChainListener = () => void;
+
+/**
+ * The configurable pipeline: pass order, toggles and parameters, plus the
+ * intermediate targets to run it. GPU resources are created on first render
+ * and released by dispose(); the chain itself can outlive a canvas.
+ */
+export class PostProcessingChain {
+  private passes: PostPass[];
+  private listeners = new Set<PostChainListener>();
+  private screen = new FullscreenPass();
+  private targets: THREE.WebGLRenderTarget[] = [];
+  private type: THREE.TextureDataType = THREE.HalfFloatType;
+
+  constructor(passes: PostPass[] = createDefaultPasses()) {
+    this.passes = passes;
+  }
+
+  list(): readonly PostPass[] {
+    return this.passes;
+  }
+
+  get hasEnabledPasses() {
+    return this.passes.some(pass => pass.enabled);
+  }
+
+  subscribe(listener: PostChainListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  setEnabled(id: string, enabled: boolean) {
+    const pass = this.find(id);
+    if (!pass) return;
+    pass.enabled = enabled;
+    this.notify();
+  }
+
+  setParam(id: string, key: string, value: number) {
+    const pass = this.find(id);
+    if (!pass || !(key in pass.params)) return;
+    pass.params[key] = value;
+    this.notify();
+  }
+
+  /** Moves a pass `offset` places earlier (negative) or later (positive) in the chain. */
+  move(id: string, offset: number) {
+    const from = this.passes.findIndex(pass => pass.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= this.passes.length) return;
+    const next = [...this.passes];
+    const [pass] = next.splice(from, 1);
+    next.splice(to, 0, pass);
+    this.passes = next;
+    this.notify();
+  }
+
+  /**
+   * Target the composite pass should draw into before render(), sized to the
+   * drawing buffer. 8-bit GPUs get byte targets (see detectFieldEncoding).
+   */
+  getInputTarget(width: number, height: number, type: THREE.TextureDataType) {
+    return this.ensureTargets(width, height, type)[0];
+  }
+
+  /** Runs every enabled pass over `input`; the last one draws to the screen. */
+  render(renderer: THREE.WebGLRenderer, input: THREE.WebGLRenderTarget, time: number) {
+    const enabled = this.passes.filter(pass => pass.enabled);
+    const [first, second] = this.ensureTargets(input.width, input.height, this.type);
+    const frame: PostFrame = { renderer, screen: this.screen, time, width: input.width, height: input.height, type: this.type };
+
+    // Alternate between the two chain targets; the input target is the first read
+    let read = input;
+    enabled.forEach((pass, i) => {
+      const isLast = i === enabled.length - 1;
+      const write = isLast ? null : (read === second ? first : second);
+      pass.render(frame, read.texture, write);
+      if (write) read = write;
+    });
+  }
+
+  dispose() {
+    this.targets.forEach(target => target.dispose());
+    this.targets = [];
+    this.passes.forEach(pass => pass.dispose());
+    this.screen.dispose();
+  }
+
+  private ensureTargets(width: number, height: number, type: THREE.TextureDataType) {
+    if (this.targets.length && this.type !== type) {
+      this.targets.forEach(target => target.dispose());
+      this.targets = [];
+    }
+    this.type = type;
+    if (!this.targets.length) {
+      const options = { type, depthBuffer: false, minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter };
+      this.targets = [new THREE.WebGLRenderTarget(width, height, options), new THREE.WebGLRenderTarget(width, height, options)];
+    }
+    this.targets.forEach(target => {
+      if (target.width !== width || target.height !== height) target.setSize(width, height);
+    });
+    return this.targets;
+  }
+
+  private find(id: string) {
+    return this.passes.find(pass => pass.id === id);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,138 @@
+/** One rung of the quality ladder. */
+export interface QualityLevel {
+  name: string;
+  dpr: number;       // canvas device pixel ratio (capped at the display's)
+  fboScale: number;  // smear buffer size as a fraction of the canvas (CSS pixels)
+  blurTaps: number;  // samples along a smear stroke in the composite shader, 1-8
+}
+
+// Best first; the governor starts at the top and walks down under load
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: 'high', dpr: 2, fboScale: 0.5, blurTaps: 8 },
+  { name: 'medium', dpr: 1.5, fboScale: 0.5, blurTaps: 6 },
+  { name: 'low', dpr: 1, fboScale: 0.35, blurTaps: 4 },
+  { name: 'minimal', dpr: 0.75, fboScale: 0.25, blurTaps: 2 },
+];
+
+export interface QualityState {
+  level: number;
+  averageFps: number;
+}
+
+export type QualityListener = (state: QualityState) => void;
+
+export interface QualityGovernorOptions {
+  targetFps: number;
+  // Seconds the frame time must stay over budget before stepping down
+  downgradeAfter: number;
+  // Seconds at target before trying the next level up; doubles after each failed try
+  upgradeAfter: number;
+  maxUpgradeAfter: number;
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityGovernorOptions = {
+  targetFps: 60,
+  downgradeAfter: 1.5,
+  upgradeAfter: 8,
+  maxUpgradeAfter: 60,
+};
+
+// Frames longer than this are tab switches or GC pauses, not load
+const MAX_SAMPLE = 0.25;
+// Ignore the first moments after a change while shaders compile and buffers reallocate
+const SETTLE_TIME = 1.0;
+// An upgrade that is undone this soon counts as failed
+const PROBE_WINDOW = 4.0;
+// How often listeners hear the running frame rate between level changes
+const REPORT_INTERVAL = 1.0;
+
+/** Reads `?targetFps=` (e.g. 30 for kiosks on weak GPUs). */
+export const readTargetFpsFromUrl = (search = window.location.search) => {
+  const fps = parseInt(new URLSearchParams(search).get('targetFps') ?? '', 10);
+  return Number.isFinite(fps) && fps > 0 ? fps : DEFAULT_QUALITY_OPTIONS.targetFps;
+};
+
+/**
+ * Watches frame times and moves along QUALITY_LEVELS to hold the target
+ * frame rate. Steps down quickly when frames run long; steps up slowly and
+ * backs off if the faster level cannot hold the target either.
+ *
+ * Displays are vsync-capped, so "at target" means within 5% of the budget,
+ * not under it.
+ */
+export class QualityGovernor {
+  options: QualityGovernorOptions;
+  private state: QualityState;
+  private listeners = new Set<QualityListener>();
+  private averageFrameTime: number;
+  private overBudgetTime = 0;
+  private atTargetTime = 0;
+  private sinceChange = 0;
+  private sinceReport = 0;
+  private upgradeAfter: number;
+  private lastChangeWasUpgrade = false;
+
+  constructor(options: Partial<QualityGovernorOptions> = {}) {
+    this.options = { ...DEFAULT_QUALITY_OPTIONS, ...options };
+    this.averageFrameTime = 1 / this.options.targetFps;
+    this.upgradeAfter = this.options.upgradeAfter;
+    this.state = { level: 0, averageFps: this.options.targetFps };
+  }
+
+  get level(): QualityLevel {
+    return QUALITY_LEVELS[this.state.level];
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: QualityListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Feed every rendered frame's duration in seconds. */
+  sample(dt: number) {
+    if (dt <= 0 || dt > MAX_SAMPLE) return;
+    this.sinceChange += dt;
+    if (this.sinceChange < SETTLE_TIME) return;
+
+    this.averageFrameTime += (dt - this.averageFrameTime) * 0.05;
+    this.sinceReport += dt;
+    if (this.sinceReport > REPORT_INTERVAL) this.emit(this.state.level);
+    const budget = 1 / this.options.targetFps;
+
+    if (this.averageFrameTime > budget * 1.2) {
+      this.overBudgetTime += dt;
+      this.atTargetTime = 0;
+    } else if (this.averageFrameTime < budget * 1.05) {
+      this.atTargetTime += dt;
+      this.overBudgetTime = 0;
+    }
+
+    if (this.overBudgetTime > this.options.downgradeAfter && this.state.level < QUALITY_LEVELS.length - 1) {
+      // The last upgrade did not hold: wait longer before the next attempt
+      if (this.lastChangeWasUpgrade && this.sinceChange < PROBE_WINDOW) {
+        this.upgradeAfter = Math.min(this.upgradeAfter * 2, this.options.maxUpgradeAfter);
+      }
+      this.setLevel(this.state.level + 1, false);
+    } else if (this.atTargetTime > this.upgradeAfter && this.state.level > 0) {
+      this.setLevel(this.state.level - 1, true);
+    }
+  }
+
+  private setLevel(level: number, isUpgrade: boolean) {
+    this.lastChangeWasUpgrade = isUpgrade;
+    this.overBudgetTime = 0;
+    this.atTargetTime = 0;
+    this.sinceChange = 0;
+    this.emit(level);
+  }
+
+  private emit(level: number) {
+    this.sinceReport = 0;
+    this.state = { level, averageFps: 1 / this.averageFrameTime };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
@@ -0,0 +1,80 @@
+import { GestureType, HandData } from '../types';
+import { GestureEvent } from './GestureEvents';
+import { EffectAudio, EffectModule, EffectVoice, handlesGesture } from './EffectModules';
+import { WaveSource } from './WaveHeightfield';
+
+/**
+ * Open palms disturb the water. The waves themselves are the ripple
+ * surface's heightfield (WaveHeightfield), stepped by the scene; this module
+ * supplies its sources and the sound: a flowing water layer per palm and a
+ * drop when one lands.
+ */
+export class RippleEffect implements EffectModule {
+  readonly id = 'ripples';
+  readonly gestures: GestureType[] = ['PALM'];
+
+  /** Every hand holding one of the module's gestures drives the surface; nearer hands push harder and wider. */
+  waveSources(hands: HandData): WaveSource[] {
+    return hands
+      .filter(hand => handlesGesture(this, hand.gesture))
+      .map(hand => ({ x: hand.x, y: hand.y, radius: 0.03 + 0.03 * hand.z, amplitude: 0.8 + 2.5 * hand.z }));
+  }
+
+  createVoice({ ctx, hands: outputs, master, noise }: EffectAudio): EffectVoice {
+    const source = ctx.createBufferSource();
+    source.buffer = noise;
+    source.loop = true;
+    source.start();
+
+    const voices = outputs.map(output => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.Q.value = 4.0; // Increased Q slightly for more "liquid" resonance
+      filter.frequency.value = 300;
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      source.connect(filter);
+      filter.connect(gain);
+      gain.connect(output);
+      return { filter, gain };
+    });
+
+    return {
+      update: (now: number, hands: HandData) => {
+        voices.forEach((voice, i) => {
+          const hand = hands[i];
+          const proximity = hand && handlesGesture(this, hand.gesture) ? hand.z : 0;
+          const active = proximity > 0.01;
+          const volume = active ? Math.min(proximity * 2.5, 1.0) : 0;
+          // LFO for "flowing" texture, offset per hand so voices do not phase together
+          const flowLFO = Math.sin(now * 2.5 + i * 1.7) * 250;
+          voice.gain.gain.setTargetAtTime(volume, now, 0.3);
+          voice.filter.frequency.setTargetAtTime(350 + proximity * 600 + flowLFO, now, 0.2);
+        });
+      },
+      onset: (_event: GestureEvent, now: number) => {
+        const envelope = ctx.createGain();
+        envelope.gain.setValueAtTime(0, now);
+        envelope.gain.linearRampToValueAtTime(0.15, now + 0.005);
+        envelope.gain.exponentialRampToValueAtTime(0.001, now + 0.25);
+        envelope.connect(master);
+        const drop = ctx.createBufferSource();
+        drop.buffer = noise;
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.Q.value = 6.0;
+        filter.frequency.setValueAtTime(900, now);
+        filter.frequency.exponentialRampToValueAtTime(250, now + 0.2);
+        drop.connect(filter);
+        filter.connect(envelope);
+        drop.start(now);
+        drop.stop(now + 0.3);
+        drop.onended = () => envelope.disconnect();
+      },
+      dispose: () => {
+        source.stop();
+        voices.forEach(voice => voice.gain.disconnect());
+      },
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { HandData } from '../types';
+import { HandSession } from './sessionFormat';
+
+export interface SessionPlayerState {
+  isLoaded: boolean;
+  isPlaying: boolean;
+  position: number; // ms
+  duration: number; // ms
+  speed: number;
+  loop: boolean;
+}
+
+/**
+ * Replays a recorded session into whatever consumes HandData.
+ * The emitted frame is a pure function of the playhead (the last frame at or
+ * before it), so seeking to the same time always reproduces the same input.
+ */
+export class SessionPlayer {
+  private session: HandSession | null = null;
+  private position = 0;
+  private speed = 1;
+  private loop = false;
+  private isPlaying = false;
+  private lastTick = 0;
+  private requestId = 0;
+  private listeners = new Set<(state: SessionPlayerState) => void>();
+
+  constructor(private onFrame: (data: HandData) => void) {}
+
+  load(session: HandSession) {
+    this.pause();
+    this.session = session;
+    this.position = 0;
+    this.emit();
+  }
+
+  unload() {
+    this.pause();
+    this.session = null;
+    this.position = 0;
+    this.notify();
+  }
+
+  get duration() {
+    const frames = this.session?.frames;
+    return frames && frames.length ? frames[frames.length - 1].t : 0;
+  }
+
+  get isLoaded() {
+    return this.session !== null;
+  }
+
+  play() {
+    if (!this.session || this.isPlaying) return;
+    // Restart from the top when play is pressed at the end
+    if (this.position >= this.duration) this.position = 0;
+    this.isPlaying = true;
+    this.lastTick = performance.now();
+    this.requestId = requestAnimationFrame(this.tick);
+    this.notify();
+  }
+
+  pause() {
+    if (!this.isPlaying) return;
+    this.isPlaying = false;
+    cancelAnimationFrame(this.requestId);
+    this.notify();
+  }
+
+  seek(ms: number) {
+    this.position = Math.max(0, Math.min(this.duration, ms));
+    this.emit();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = Math.max(0.05, speed);
+    this.notify();
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    this.notify();
+  }
+
+  /** Frame shown at the given playhead: the last one recorded at or before it. */
+  frameAt(ms: number): HandData | null {
+    const frames = this.session?.frames;
+    if (!frames || frames.length === 0) return null;
+
+    let lo = 0;
+    let hi = frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (frames[mid].t <= ms) lo = mid;
+      else hi = mid - 1;
+    }
+    return frames[lo].hands;
+  }
+
+  getState(): SessionPlayerState {
+    return {
+      isLoaded: this.isLoaded,
+      isPlaying: this.isPlaying,
+      position: this.position,
+      duration: this.duration,
+      speed: this.speed,
+      loop: this.loop
+    };
+  }
+
+  subscribe(listener: (state: SessionPlayerState) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private tick = (now: number) => {
+    if (!this.isPlaying) return;
+    const elapsed = (now - this.lastTick) * this.speed;
+    this.lastTick = now;
+
+    let next = this.position + elapsed;
+    const duration = this.duration;
+    if (next >= duration) {
+      if (this.loop && duration > 0) {
+        next %= duration;
+      } else {
+        this.position = duration;
+        this.emit();
+        this.pause();
+        return;
+      }
+    }
+    this.position = next;
+    this.emit();
+    this.requestId = requestAnimationFrame(this.tick);
+  };
+
+  private emit() {
+    const frame = this.frameAt(this.position);
+    if (frame) this.onFrame(frame);
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
@@ -0,0 +1,64 @@
+import { HandData } from '../types';
+import { HandInputKind, RawHandFrame } from './HandInputSource';
+import { HandSession, HandSessionFrame, SESSION_FORMAT, SESSION_VERSION } from './sessionFormat';
+
+export interface SessionRecorderOptions {
+  /**
+   * Also store the raw landmarker output and each hand's world landmarks.
+   * Image landmarks and finger states are always kept because the smear
+   * brushes paint from them. Several times larger files.
+   */
+  includeRaw: boolean;
+}
+
+/** Captures every HandData frame handed to it between start() and stop(). */
+export class SessionRecorder {
+  private frames: HandSessionFrame[] = [];
+  private startTime = 0;
+  private source: HandInputKind = 'webcam';
+  private options: SessionRecorderOptions = { includeRaw: false };
+  isRecording = false;
+
+  start(source: HandInputKind, options: Partial<SessionRecorderOptions> = {}) {
+    this.frames = [];
+    this.startTime = -1;
+    this.source = source;
+    this.options = { includeRaw: false, ...options };
+    this.isRecording = true;
+  }
+
+  capture(hands: HandData, raw?: RawHandFrame, now = performance.now()) {
+    if (!this.isRecording) return;
+    if (this.startTime < 0) this.startTime = now;
+
+    const frame: HandSessionFrame = {
+      t: now - this.startTime,
+      // Deep copy: sources may reuse objects between frames
+      hands: JSON.parse(JSON.stringify(hands))
+    };
+    // Nothing downstream of HandData reads world landmarks; the fingertip
+    // brushes do read landmarks and fingers, so those stay for replay
+    if (!this.options.includeRaw) {
+      frame.hands.forEach(hand => { delete hand.worldLandmarks; });
+    }
+    if (this.options.includeRaw && raw) frame.raw = raw;
+    this.frames.push(frame);
+  }
+
+  get frameCount() {
+    return this.frames.length;
+  }
+
+  stop(): HandSession {
+    this.isRecording = false;
+    const session: HandSession = {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      createdAt: new Date().toISOString(),
+      source: this.source,
+      frames: this.frames
+    };
+    this.frames = [];
+    return session;
+  }
+}
@@ -0,0 +1,135 @@
+import { FluidParams, FingerName, GestureType, HandData, HandPoint } from '../types';
+
+/** One smear dab for the current frame. Image space (0-1, y down), velocity in units/s. */
+export interface BrushPoint {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  strength: number;  // multiplies smearIntensity
+}
+
+/** Per-fingertip velocity in units/s, tracked across frames. Missing until a tip has been seen twice. */
+export type TipVelocities = Partial<Record<FingerName, { vx: number, vy: number }>>;
+
+/** Turns one hand into zero or more brush points. */
+export type BrushLayout = (hand: HandPoint, params: FluidParams, tips: TipVelocities) => BrushPoint[];
+
+// Upper bound baked into the smear shader's uniform arrays
+export const MAX_BRUSH_POINTS = 16;
+
+// Finger extension ratio above which the rake paints with that tip (see HandFeatures.extension)
+export const RAKE_MIN_EXTENSION = 1.1;
+
+// Share of the previous velocity kept each frame; raw landmark deltas are jittery
+const TIP_VELOCITY_SMOOTHING = 0.6;
+
+const FINGERTIPS: Record<FingerName, number> = { thumb: 4, index: 8, middle: 12, ring: 16, pinky: 20 };
+
+// The index tip has its own filtered position and velocity from the landmark processor
+const indexPoint = (hand: HandPoint, radius: number, strength: number): BrushPoint => ({
+  x: hand.indexTip.x, y: hand.indexTip.y, vx: hand.indexTip.vx, vy: hand.indexTip.vy, radius, strength,
+});
+
+const tipBrush = (hand: HandPoint, tips: TipVelocities, finger: FingerName, radius: number, strength: number): BrushPoint | null => {
+  if (finger === 'index') return indexPoint(hand, radius, strength);
+  const tip = hand.landmarks?.[FINGERTIPS[finger]];
+  if (!tip) return null;
+  const velocity = tips[finger] ?? { vx: 0, vy: 0 };
+  return { x: tip.x, y: tip.y, vx: velocity.vx, vy: velocity.vy, radius, strength };
+};
+
+/** The original brush: the index fingertip at full size. */
+export const indexBrush: BrushLayout = (hand, params) => [indexPoint(hand, params.smearRadius, 1.0)];
+
+/** Every extended fingertip paints a narrower stroke, like dragging a rake. */
+export const rakeBrush: BrushLayout = (hand, params, tips) => {
+  const states = hand.fingers;
+  const fingers: FingerName[] = states
+    ? (Object.keys(states) as FingerName[]).filter(f => states[f].extension > RAKE_MIN_EXTENSION)
+    : ['index'];
+  return fingers
+    .map(f => tipBrush(hand, tips, f, params.smearRadius * 0.45, 0.7))
+    .filter((p): p is BrushPoint => p !== null);
+};
+
+/** A small, precise brush on the thumb tip. */
+export const thumbBrush: BrushLayout = (hand, params, tips) => {
+  const point = tipBrush(hand, tips, 'thumb', params.smearRadius * 0.3, 1.2);
+  return point ? [point] : [];
+};
+
+/**
+ * Which brush layout each gesture paints with. Gestures without a layout
+ * do not smear.
+ */
+class SmearBrushRegistry {
+  private layouts = new Map<GestureType, BrushLayout>();
+  // Last tip positions and smoothed velocities per tracked hand id
+  private tipMotion = new Map<number, Record<FingerName, { x: number, y: number, vx: number, vy: number }>>();
+
+  constructor(initial: [GestureType, BrushLayout][]) {
+    initial.forEach(([gesture, layout]) => this.layouts.set(gesture, layout));
+  }
+
+  register(gesture: GestureType, layout: BrushLayout) {
+    this.layouts.set(gesture, layout);
+  }
+
+  unregister(gesture: GestureType) {
+    this.layouts.delete(gesture);
+  }
+
+  has(gesture: GestureType) {
+    return this.layouts.has(gesture);
+  }
+
+  /** Brush points for every hand this frame, capped at MAX_BRUSH_POINTS. `dt` is the frame time in seconds. */
+  collect(hands: HandData, params: FluidParams, dt: number): BrushPoint[] {
+    this.trackTips(hands, dt);
+    const points: BrushPoint[] = [];
+    for (const hand of hands) {
+      const layout = this.layouts.get(hand.gesture);
+      if (layout) points.push(...layout(hand, params, hand.id !== null ? this.tipMotion.get(hand.id) ?? {} : {}));
+    }
+    return points.slice(0, MAX_BRUSH_POINTS);
+  }
+
+  // Differentiates every fingertip across frames, whatever the gesture, so a
+  // brush starts with a settled velocity as soon as its gesture is recognised
+  private trackTips(hands: HandData, dt: number) {
+    const seen = new Set<number>();
+    for (const hand of hands) {
+      if (hand.id === null || !hand.landmarks) continue;
+      seen.add(hand.id);
+      const previous = this.tipMotion.get(hand.id);
+      const next = {} as Record<FingerName, { x: number, y: number, vx: number, vy: number }>;
+      for (const finger of Object.keys(FINGERTIPS) as FingerName[]) {
+        const tip = hand.landmarks[FINGERTIPS[finger]];
+        const last = previous?.[finger];
+        if (!last || dt <= 0) {
+          next[finger] = { x: tip.x, y: tip.y, vx: last?.vx ?? 0, vy: last?.vy ?? 0 };
+          continue;
+        }
+        const k = TIP_VELOCITY_SMOOTHING;
+        next[finger] = {
+          x: tip.x,
+          y: tip.y,
+          vx: last.vx * k + ((tip.x - last.x) / dt) * (1 - k),
+          vy: last.vy * k + ((tip.y - last.y) / dt) * (1 - k),
+        };
+      }
+      this.tipMotion.set(hand.id, next);
+    }
+    for (const id of this.tipMotion.keys()) {
+      if (!seen.has(id)) this.tipMotion.delete(id);
+    }
+  }
+}
+
+export const smearBrushes = new SmearBrushRegistry([
+  ['POINT', indexBrush],
+  ['TWO_FINGER', rakeBrush],
+  ['THUMBS_UP', thumbBrush],
+]);
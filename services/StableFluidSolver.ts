@@ -0,0 +1,304 @@
+import * as THREE from 'three';
+import { FluidParams, HandData, MAX_HANDS } from '../types';
+import { FieldEncoding, FullscreenPass, PingPongTarget, createPassMaterial } from './PingPongTarget';
+
+/**
+ * Stable-fluids solver (Stam 1999) on the GPU, for the 'fluid' surface mode.
+ * Each step: splat hand forces and dye, advect velocity, project it to be
+ * divergence free (divergence -> Jacobi pressure -> gradient subtract), then
+ * advect dye through the result.
+ *
+ * Everything lives in image space with y up, the same space as the composite
+ * shader's mirrorUV. Velocity is stored in image units per second.
+ *
+ * Pressure and divergence span too wide a range to pack into bytes, so the
+ * solver needs float or half-float render targets.
+ */
+
+/** Force and dye injected at one point this frame. Image space (0-1, y down), velocity in units/s. */
+export interface FluidSplat {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  dye: number;
+}
+
+// Upper bound baked into the splat shader's uniform arrays: one per hand
+export const MAX_SPLATS = MAX_HANDS;
+
+// Cells along the short side of the simulation grid; dye runs at twice that
+const SIM_SIZE = 128;
+const DYE_SCALE = 2;
+
+// Below this fingertip speed (units/s) a hand only stirs, it adds no dye
+const DYE_SPEED = 0.15;
+
+/** Every tracked hand pushes the fluid from its index tip (palm centre for PALM). */
+export const collectFluidSplats = (hands: HandData, params: FluidParams): FluidSplat[] => {
+  const splats: FluidSplat[] = [];
+  for (const hand of hands) {
+    if (hand.id === null || splats.length >= MAX_SPLATS) continue;
+    const atPalm = hand.gesture === 'PALM';
+    const speed = Math.hypot(hand.indexTip.vx, hand.indexTip.vy);
+    splats.push({
+      x: atPalm ? hand.x : hand.indexTip.x,
+      y: atPalm ? hand.y : hand.indexTip.y,
+      vx: hand.indexTip.vx,
+      vy: hand.indexTip.vy,
+      radius: params.smearRadius * (atPalm ? 1.5 : 0.6),
+      dye: Math.min(Math.max((speed - DYE_SPEED) / 0.6, 0), 1),
+    });
+  }
+  return splats;
+};
+
+// Adds Gaussian splats to a field: velocity (rg) or dye (r)
+const splatShader = `
+  #define MAX_SPLATS ${MAX_SPLATS}
+  uniform sampler2D uTarget;
+  uniform float uAspect;
+  uniform int uSplatCount;
+  uniform vec2 uSplatPos[MAX_SPLATS];    // y up
+  uniform vec3 uSplatValue[MAX_SPLATS];
+  uniform float uSplatRadius[MAX_SPLATS];
+  varying vec2 vUv;
+
+  void main() {
+    vec3 value = texture2D(uTarget, vUv).xyz;
+    for (int i = 0; i < MAX_SPLATS; i++) {
+      if (i >= uSplatCount) break;
+      vec2 d = vUv - uSplatPos[i];
+      d.x *= uAspect;
+      float r = uSplatRadius[i];
+      value += uSplatValue[i] * exp(-dot(d, d) / (r * r));
+    }
+    gl_FragColor = vec4(value, 1.0);
+  }
+`;
+
+// Semi-Lagrangian advection: fetch the value that flows into this cell
+const advectShader = `
+  uniform sampler2D uVelocity;
+  uniform sampler2D uSource;
+  uniform float uDt;
+  uniform float uDissipation;   // fraction lost per second
+  varying vec2 vUv;
+
+  void main() {
+    vec2 from = vUv - uDt * texture2D(uVelocity, vUv).xy;
+    vec4 value = texture2D(uSource, from);
+    gl_FragColor = value / (1.0 + uDissipation * uDt);
+  }
+`;
+
+const divergenceShader = `
+  uniform sampler2D uVelocity;
+  uniform vec2 uTexel;
+  varying vec2 vUv;
+
+  void main() {
+    // Walls at the frame edge: no flow through them
+    vec2 c = texture2D(uVelocity, vUv).xy;
+    float l = vUv.x - uTexel.x < 0.0 ? -c.x : texture2D(uVelocity, vUv - vec2(uTexel.x, 0.0)).x;
+    float r = vUv.x + uTexel.x > 1.0 ? -c.x : texture2D(uVelocity, vUv + vec2(uTexel.x, 0.0)).x;
+    float b = vUv.y - uTexel.y < 0.0 ? -c.y : texture2D(uVelocity, vUv - vec2(0.0, uTexel.y)).y;
+    float t = vUv.y + uTexel.y > 1.0 ? -c.y : texture2D(uVelocity, vUv + vec2(0.0, uTexel.y)).y;
+    float div = (r - l) / (2.0 * uTexel.x) + (t - b) / (2.0 * uTexel.y);
+    gl_FragColor = vec4(div, 0.0, 0.0, 1.0);
+  }
+`;
+
+// One Jacobi iteration of the pressure Poisson equation (cells may be non-square)
+const pressureShader = `
+  uniform sampler2D uPressure;
+  uniform sampler2D uDivergence;
+  uniform vec2 uTexel;
+  varying vec2 vUv;
+
+  void main() {
+    float l = texture2D(uPressure, vUv - vec2(uTexel.x, 0.0)).x;
+    float r = texture2D(uPressure, vUv + vec2(uTexel.x, 0.0)).x;
+    float b = texture2D(uPressure, vUv - vec2(0.0, uTexel.y)).x;
+    float t = texture2D(uPressure, vUv + vec2(0.0, uTexel.y)).x;
+    float div = texture2D(uDivergence, vUv).x;
+    vec2 invSq = 1.0 / (uTexel * uTexel);
+    float p = ((l + r) * invSq.x + (b + t) * invSq.y - div) / (2.0 * (invSq.x + invSq.y));
+    gl_FragColor = vec4(p, 0.0, 0.0, 1.0);
+  }
+`;
+
+const gradientSubtractShader = `
+  uniform sampler2D uPressure;
+  uniform sampler2D uVelocity;
+  uniform vec2 uTexel;
+  varying vec2 vUv;
+
+  void main() {
+    float l = texture2D(uPressure, vUv - vec2(uTexel.x, 0.0)).x;
+    float r = texture2D(uPressure, vUv + vec2(uTexel.x, 0.0)).x;
+    float b = texture2D(uPressure, vUv - vec2(0.0, uTexel.y)).x;
+    float t = texture2D(uPressure, vUv + vec2(0.0, uTexel.y)).x;
+    vec2 velocity = texture2D(uVelocity, vUv).xy;
+    velocity -= vec2((r - l) / (2.0 * uTexel.x), (t - b) / (2.0 * uTexel.y));
+    gl_FragColor = vec4(velocity, 0.0, 1.0);
+  }
+`;
+
+// Scales last frame's pressure down to warm-start this frame's Jacobi iterations
+const fadeShader = `
+  uniform sampler2D uSource;
+  uniform float uFactor;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = texture2D(uSource, vUv) * uFactor;
+  }
+`;
+
+export class StableFluidSolver {
+  private velocity: PingPongTarget;
+  private pressure: PingPongTarget;
+  private dye: PingPongTarget;
+  private divergence: THREE.WebGLRenderTarget;
+  private texel: THREE.Vector2;
+  private aspect: number;
+
+  private screen = new FullscreenPass();
+
+  private splatPass = createPassMaterial(splatShader, {
+    uTarget: { value: null },
+    uAspect: { value: 1 },
+    uSplatCount: { value: 0 },
+    uSplatPos: { value: Array.from({ length: MAX_SPLATS }, () => new THREE.Vector2()) },
+    uSplatValue: { value: Array.from({ length: MAX_SPLATS }, () => new THREE.Vector3()) },
+    uSplatRadius: { value: new Array(MAX_SPLATS).fill(0) },
+  });
+  private advectPass = createPassMaterial(advectShader, {
+    uVelocity: { value: null },
+    uSource: { value: null },
+    uDt: { value: 0 },
+    uDissipation: { value: 0 },
+  });
+  private divergencePass = createPassMaterial(divergenceShader, { uVelocity: { value: null }, uTexel: { value: new THREE.Vector2() } });
+  private pressurePass = createPassMaterial(pressureShader, {
+    uPressure: { value: null },
+    uDivergence: { value: null },
+    uTexel: { value: new THREE.Vector2() },
+  });
+  private gradientPass = createPassMaterial(gradientSubtractShader, {
+    uPressure: { value: null },
+    uVelocity: { value: null },
+    uTexel: { value: new THREE.Vector2() },
+  });
+  private fadePass = createPassMaterial(fadeShader, { uSource: { value: null }, uFactor: { value: 0.8 } });
+
+  /** `aspect` is the video's width / height; the grid follows it so cells stay square on screen. */
+  constructor(aspect: number, encoding: Exclude<FieldEncoding, 'byte'> = 'float') {
+    this.aspect = aspect;
+    const width = Math.round(SIM_SIZE * Math.max(aspect, 1));
+    const height = Math.round(SIM_SIZE / Math.min(aspect, 1));
+    this.texel = new THREE.Vector2(1 / width, 1 / height);
+    this.velocity = new PingPongTarget(width, height, { encoding });
+    this.pressure = new PingPongTarget(width, height, { encoding });
+    this.dye = new PingPongTarget(width * DYE_SCALE, height * DYE_SCALE, { encoding });
+    this.divergence = new THREE.WebGLRenderTarget(width, height, {
+      type: encoding === 'half' ? THREE.HalfFloatType : THREE.FloatType,
+      depthBuffer: false,
+    });
+  }
+
+  /** Velocity field (rg, image units/s, y up) for the composite shader to refract by. */
+  get velocityTexture() {
+    return this.velocity.read.texture;
+  }
+
+  /** Dye density (r, 0 = clear), deposited by fast hands and carried by the flow. */
+  get dyeTexture() {
+    return this.dye.read.texture;
+  }
+
+  step(renderer: THREE.WebGLRenderer, dt: number, splats: FluidSplat[], params: FluidParams) {
+    if (dt <= 0) return;
+    const previousTarget = renderer.getRenderTarget();
+    [this.velocity, this.pressure, this.dye].forEach(target => target.prepare(renderer));
+
+    if (splats.length) {
+      // Scaled by dt so a hand pushes the same amount at any frame rate
+      const force = params.fluidSplatForce * dt;
+      this.splat(renderer, this.velocity, splats, s => [s.vx * force, -s.vy * force, 0]);
+      this.splat(renderer, this.dye, splats, s => [s.dye * 4.0 * dt, 0, 0]);
+    }
+
+    this.advect(renderer, this.velocity, dt, params.fluidVelocityDissipation);
+
+    this.divergencePass.uniforms.uVelocity.value = this.velocity.read.texture;
+    this.divergencePass.uniforms.uTexel.value.copy(this.texel);
+    this.screen.render(renderer, this.divergencePass, this.divergence);
+
+    this.fadePass.uniforms.uSource.value = this.pressure.read.texture;
+    this.screen.render(renderer, this.fadePass, this.pressure.write);
+    this.pressure.swap();
+
+    this.pressurePass.uniforms.uDivergence.value = this.divergence.texture;
+    this.pressurePass.uniforms.uTexel.value.copy(this.texel);
+    for (let i = 0; i < params.fluidPressureIterations; i++) {
+      this.pressurePass.uniforms.uPressure.value = this.pressure.read.texture;
+      this.screen.render(renderer, this.pressurePass, this.pressure.write);
+      this.pressure.swap();
+    }
+
+    this.gradientPass.uniforms.uPressure.value = this.pressure.read.texture;
+    this.gradientPass.uniforms.uVelocity.value = this.velocity.read.texture;
+    this.gradientPass.uniforms.uTexel.value.copy(this.texel);
+    this.screen.render(renderer, this.gradientPass, this.velocity.write);
+    this.velocity.swap();
+
+    this.advect(renderer, this.dye, dt, params.fluidDyeDissipation);
+
+    renderer.setRenderTarget(previousTarget);
+  }
+
+  /** Stills the fluid and washes out the dye (clap). */
+  clear(renderer: THREE.WebGLRenderer) {
+    [this.velocity, this.pressure, this.dye].forEach(target => target.clear(renderer));
+  }
+
+  dispose() {
+    this.velocity.dispose();
+    this.pressure.dispose();
+    this.dye.dispose();
+    this.divergence.dispose();
+    this.screen.dispose();
+    [this.splatPass, this.advectPass, this.divergencePass, this.pressurePass, this.gradientPass, this.fadePass]
+      .forEach(material => material.dispose());
+  }
+
+  private splat(renderer: THREE.WebGLRenderer, field: PingPongTarget, splats: FluidSplat[], value: (s: FluidSplat) => [number, number, number]) {
+    const uniforms = this.splatPass.uniforms;
+    const positions = uniforms.uSplatPos.value as THREE.Vector2[];
+    const values = uniforms.uSplatValue.value as THREE.Vector3[];
+    const radii = uniforms.uSplatRadius.value as number[];
+    uniforms.uTarget.value = field.read.texture;
+    uniforms.uAspect.value = this.aspect;
+    uniforms.uSplatCount.value = splats.length;
+    splats.forEach((s, i) => {
+      positions[i].set(s.x, 1.0 - s.y);
+      values[i].set(...value(s));
+      radii[i] = s.radius * 0.5;
+    });
+    this.screen.render(renderer, this.splatPass, field.write);
+    field.swap();
+  }
+
+  private advect(renderer: THREE.WebGLRenderer, field: PingPongTarget, dt: number, dissipation: number) {
+    const uniforms = this.advectPass.uniforms;
+    uniforms.uVelocity.value = this.velocity.read.texture;
+    uniforms.uSource.value = field.read.texture;
+    uniforms.uDt.value = dt;
+    uniforms.uDissipation.value = dissipation;
+    this.screen.render(renderer, this.advectPass, field.write);
+    field.swap();
+  }
+}
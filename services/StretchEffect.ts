@@ -0,0 +1,170 @@
+import * as THREE from 'three';
+import { FluidParams, GestureType, HandData, MAX_HANDS } from '../types';
+import { GestureEvent } from './GestureEvents';
+import { EffectAudio, EffectFrame, EffectModule, EffectVoice } from './EffectModules';
+
+// Spring that pulls a pinched point of the glass after the hand and lets it rebound on release
+class HandPhysics {
+  anchorPoint = new THREE.Vector2(0.5, 0.5);
+  currentStretch = new THREE.Vector2(0, 0);
+  velocity = new THREE.Vector2(0, 0);
+  isDragging = false;
+
+  // Driven by PINCH gestureStart/gestureEnd events
+  grab(handPos: { x: number, y: number }) {
+    this.isDragging = true;
+    this.anchorPoint.set(handPos.x, 1.0 - handPos.y);
+    this.velocity.set(0, 0);
+    this.currentStretch.set(0, 0);
+  }
+
+  release() {
+    this.isDragging = false;
+  }
+
+  // Snap straight back to rest (clap reset)
+  reset() {
+    this.isDragging = false;
+    this.currentStretch.set(0, 0);
+    this.velocity.set(0, 0);
+  }
+
+  update(handPos: { x: number, y: number }, params: FluidParams, dt: number) {
+    const targetPos = new THREE.Vector2(handPos.x, 1.0 - handPos.y);
+
+    if (this.isDragging) {
+      this.currentStretch.subVectors(targetPos, this.anchorPoint);
+    } else {
+      const springK = params.reboundStiffness;
+      const damping = 5.0 * (1.05 - params.reboundElasticity);
+      const force = this.currentStretch.clone().multiplyScalar(-springK);
+      const dampingForce = this.velocity.clone().multiplyScalar(-damping);
+      const acceleration = force.add(dampingForce);
+      this.velocity.add(acceleration.multiplyScalar(dt));
+      this.currentStretch.add(this.velocity.clone().multiplyScalar(dt));
+      if (this.currentStretch.lengthSq() < 0.00001 && this.velocity.lengthSq() < 0.0001) {
+        this.currentStretch.set(0, 0);
+        this.velocity.set(0, 0);
+      }
+    }
+  }
+}
+
+/**
+ * Pinch to grab the glass and pull it; it springs back on release.
+ * Only on the ripple surface: the fluid and membrane surfaces have their own response.
+ */
+export class StretchEffect implements EffectModule {
+  readonly id = 'stretch';
+  readonly gestures: GestureType[] = ['PINCH'];
+
+  readonly uniforms = {
+    uStretchVector: { value: Array.from({ length: MAX_HANDS }, () => new THREE.Vector2(0, 0)) },
+    uStretchAnchor: { value: Array.from({ length: MAX_HANDS }, () => new THREE.Vector2(0.5, 0.5)) },
+  };
+
+  readonly shader = {
+    declarations: `
+      uniform vec2 uStretchVector[MAX_HANDS];
+      uniform vec2 uStretchAnchor[MAX_HANDS];
+    `,
+    // Released stretches keep acting while they spring back, so this is not gated on HAND_ON
+    surface: `
+      for (int i = 0; i < MAX_HANDS; i++) {
+          if (i >= uHandCount || uSurfaceMode != 0) break;
+          vec2 stretchVec = uStretchVector[i];
+          if (length(stretchVec) > 0.001) {
+               vec2 d = glassUV - uStretchAnchor[i];
+               d.x *= textureAspect;
+               float dist = length(d);
+               float grabMask = smoothstep(uGrabRadius + uBlendSoftness, uGrabRadius - uBlendSoftness * 0.5, dist);
+               float influence = pow(grabMask, 2.0);
+               totalStretch += stretchVec * influence * (1.0 - uStretchStiffness * 0.5);
+               totalHeight += influence * length(stretchVec) * 2.0;
+          }
+      }
+    `,
+  };
+
+  // One per hand slot; the pool is sized for MAX_HANDS and only the first hands.length are driven
+  private physics = Array.from({ length: MAX_HANDS }, () => new HandPhysics());
+
+  // Anchor/release on debounced pinch transitions only
+  onGestureStart(event: GestureEvent) {
+    this.physics[event.hand]?.grab(event);
+  }
+
+  onGestureEnd(event: GestureEvent) {
+    this.physics[event.hand]?.release();
+  }
+
+  reset() {
+    this.physics.forEach(physics => physics.reset());
+  }
+
+  update({ hands, params, dt, bimanual }: EffectFrame) {
+    const handCount = Math.min(hands.length, MAX_HANDS);
+    for (let i = 0; i < handCount; i++) {
+      const physics = this.physics[i];
+      // The two-hand transform replaces single-hand stretches while it is held
+      if (bimanual.pinchActive) physics.release();
+      physics.update(hands[i], params, dt);
+      this.uniforms.uStretchVector.value[i].copy(physics.currentStretch);
+      this.uniforms.uStretchAnchor.value[i].copy(physics.anchorPoint);
+    }
+  }
+
+  // Elastic tension: a detuned oscillator pair per hand that rises as the pinch moves, plus a pluck on grab
+  createVoice({ ctx, hands: outputs, master }: EffectAudio): EffectVoice {
+    const voices = outputs.map(output => {
+      const osc1 = ctx.createOscillator();
+      const osc2 = ctx.createOscillator();
+      osc1.type = 'triangle';
+      osc2.type = 'triangle';
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      osc1.connect(gain);
+      osc2.connect(gain);
+      gain.connect(output);
+      osc1.start();
+      osc2.start();
+      return { osc1, osc2, gain };
+    });
+
+    return {
+      update: (now: number, hands: HandData) => {
+        voices.forEach((voice, i) => {
+          const hand = hands[i];
+          const active = !!hand && this.gestures.includes(hand.gesture);
+          const stretch = active ? Math.min(Math.hypot(hand.indexTip.vx, hand.indexTip.vy) / 1.2, 1.0) : 0;
+          const freq = 100 + stretch * 150;
+          voice.gain.gain.setTargetAtTime(active ? 0.2 : 0, now, 0.05);
+          voice.osc1.frequency.setTargetAtTime(freq, now, 0.05);
+          voice.osc2.frequency.setTargetAtTime(freq * 1.02, now, 0.05);
+        });
+      },
+      onset: (_event: GestureEvent, now: number) => {
+        const envelope = ctx.createGain();
+        envelope.gain.setValueAtTime(0, now);
+        envelope.gain.linearRampToValueAtTime(0.15, now + 0.005);
+        envelope.gain.exponentialRampToValueAtTime(0.001, now + 0.25);
+        envelope.connect(master);
+        const osc = ctx.createOscillator();
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(220, now);
+        osc.frequency.exponentialRampToValueAtTime(140, now + 0.2);
+        osc.connect(envelope);
+        osc.start(now);
+        osc.stop(now + 0.3);
+        osc.onended = () => envelope.disconnect();
+      },
+      dispose: () => {
+        voices.forEach(voice => {
+          voice.osc1.stop();
+          voice.osc2.stop();
+          voice.gain.disconnect();
+        });
+      },
+    };
+  }
+}
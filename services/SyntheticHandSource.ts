@@ -0,0 +1,167 @@
+import { HandData, HandPoint, GestureType, DEFAULT_HAND_COUNT } from '../types';
+import { HandInputSource, HandFrameCallback, createSourceVideo, playVideo } from './HandInputSource';
+
+/** Pose of one hand at a point in time; velocities are derived by the source. */
+export interface SyntheticHandPose {
+  gesture: GestureType;
+  x: number;
+  y: number;
+  z: number;
+  indexTip: { x: number, y: number };
+}
+
+/** Parametric hand motion: maps seconds since start to one pose per hand slot. */
+export type SyntheticScript = (t: number, handCount: number) => SyntheticHandPose[];
+
+const FRAME_RATE = 30;
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+
+/**
+ * Default 12s loop that exercises every mode:
+ * 0-4s palm ripples orbiting, 4-8s pinch-and-drag, 8-12s pointing smear sweeps.
+ * Hands are spread evenly across the frame, each at its own phase offset.
+ */
+export const defaultSyntheticScript: SyntheticScript = (t, handCount) => {
+  const phase = t % 12;
+  const spacing = 0.6 / Math.max(handCount, 2);
+
+  const hand = (side: number): SyntheticHandPose => {
+    const cx = 0.5 + (side - (handCount - 1) / 2) * spacing;
+    const offset = side * Math.PI * 2 / Math.max(handCount, 2);
+
+    if (phase < 4) {
+      const a = phase * 1.5 + offset;
+      const x = cx + Math.cos(a) * 0.1;
+      const y = 0.5 + Math.sin(a) * 0.15;
+      return { gesture: 'PALM', x, y, z: 0.5 + 0.4 * Math.sin(phase * 2.0), indexTip: { x, y: y - 0.1 } };
+    }
+
+    if (phase < 8) {
+      const p = (phase - 4) / 4;
+      // Grab, pull outwards, release for the last second so the rebound plays
+      const pull = Math.sin(Math.min(p / 0.75, 1.0) * Math.PI * 0.5) * 0.15;
+      const x = cx + (side < (handCount - 1) / 2 ? -pull : pull);
+      const y = 0.5 + pull * 0.5;
+      return { gesture: p < 0.75 ? 'PINCH' : 'NONE', x, y, z: 0.4, indexTip: { x, y } };
+    }
+
+    const sweep = Math.sin((phase - 8) * Math.PI + offset);
+    const x = cx + sweep * 0.15;
+    const y = 0.4 + Math.cos((phase - 8) * 2.0) * 0.1;
+    return { gesture: 'POINT', x, y, z: 0.3, indexTip: { x, y } };
+  };
+
+  return Array.from({ length: handCount }, (_, side) => hand(side));
+};
+
+/**
+ * Plays scripted hand motion over a procedurally drawn backdrop. Needs no
+ * camera and no landmarker, and advances on a fixed frame clock so the same
+ * script always yields the same frames.
+ */
+export class SyntheticHandSource implements HandInputSource {
+  readonly kind = 'synthetic' as const;
+
+  private video: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private intervalId = 0;
+  private frameIndex = 0;
+  private previous: SyntheticHandPose[] = [];
+
+  constructor(private script: SyntheticScript = defaultSyntheticScript, private handCount = DEFAULT_HAND_COUNT) {}
+
+  async start(onFrame: HandFrameCallback): Promise<HTMLVideoElement> {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    this.canvas = canvas;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("2D canvas not supported in this browser");
+
+    this.frameIndex = 0;
+    this.previous = this.script(0, this.handCount);
+    this.drawBackdrop(ctx, 0, this.previous);
+
+    const video = createSourceVideo();
+    video.srcObject = canvas.captureStream(FRAME_RATE);
+    this.video = video;
+
+    this.intervalId = window.setInterval(() => {
+      const t = ++this.frameIndex / FRAME_RATE;
+      const poses = this.script(t, this.handCount);
+      this.drawBackdrop(ctx, t, poses);
+      onFrame(this.toHandData(poses));
+      this.previous = poses;
+    }, 1000 / FRAME_RATE);
+
+    await playVideo(video);
+    return video;
+  }
+
+  stop() {
+    window.clearInterval(this.intervalId);
+    if (this.video) {
+      const stream = this.video.srcObject as MediaStream | null;
+      stream?.getTracks().forEach(track => track.stop());
+      this.video.srcObject = null;
+      this.video = null;
+    }
+    this.canvas = null;
+  }
+
+  private toHandData(poses: SyntheticHandPose[]): HandData {
+    return poses.map((pose, i): HandPoint => ({
+      // Scripted hands never swap, so the slot doubles as a stable ID
+      id: i,
+      handedness: i % 2 === 0 ? 'Right' : 'Left',
+      gesture: pose.gesture,
+      x: pose.x,
+      y: pose.y,
+      z: pose.z,
+      indexTip: {
+        x: pose.indexTip.x,
+        y: pose.indexTip.y,
+        // Units per second, like the landmarker processor
+        vx: (pose.indexTip.x - this.previous[i].indexTip.x) * FRAME_RATE,
+        vy: (pose.indexTip.y - this.previous[i].indexTip.y) * FRAME_RATE
+      }
+    }));
+  }
+
+  // Stand-in for the camera image: a drifting grid so distortion is visible,
+  // plus markers at the scripted hand positions.
+  private drawBackdrop(ctx: CanvasRenderingContext2D, t: number, poses: SyntheticHandPose[]) {
+    const w = CANVAS_WIDTH;
+    const h = CANVAS_HEIGHT;
+
+    const gradient = ctx.createLinearGradient(0, 0, w, h);
+    gradient.addColorStop(0, `hsl(${(t * 10) % 360}, 60%, 25%)`);
+    gradient.addColorStop(1, `hsl(${(t * 10 + 120) % 360}, 60%, 15%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, w, h);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 2;
+    const spacing = 64;
+    const drift = (t * 20) % spacing;
+    ctx.beginPath();
+    for (let x = -spacing + drift; x < w + spacing; x += spacing) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, h);
+    }
+    for (let y = -spacing + drift; y < h + spacing; y += spacing) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(w, y);
+    }
+    ctx.stroke();
+
+    for (const pose of poses) {
+      ctx.fillStyle = pose.gesture === 'NONE' ? 'rgba(250, 204, 21, 0.8)' : 'rgba(34, 211, 238, 0.8)';
+      ctx.beginPath();
+      ctx.arc(pose.x * w, pose.y * h, 18 + pose.z * 24, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+}
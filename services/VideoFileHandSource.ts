@@ -0,0 +1,37 @@
+import { LandmarkerHandSource } from './LandmarkerHandSource';
+import { playVideo } from './HandInputSource';
+import { HandProcessorOptions } from './HandLandmarkProcessor';
+
+/**
+ * A local (or same-origin) video file run through the same landmarker as the
+ * webcam. Loops by default so a short clip can drive a demo indefinitely.
+ */
+export class VideoFileHandSource extends LandmarkerHandSource {
+  readonly kind = 'video-file' as const;
+  private objectUrl: string | null = null;
+
+  constructor(private media: File | string, private loop = true, processing: Partial<HandProcessorOptions> = {}) {
+    super(processing);
+  }
+
+  protected async attachMedia(video: HTMLVideoElement) {
+    if (typeof this.media === 'string') {
+      video.src = this.media;
+    } else {
+      this.objectUrl = URL.createObjectURL(this.media);
+      video.src = this.objectUrl;
+    }
+    video.loop = this.loop;
+    await playVideo(video);
+  }
+
+  protected detachMedia(video: HTMLVideoElement) {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import { FluidParams, HandData, MAX_HANDS } from '../types';
+import { EffectModule } from './EffectModules';
+import { FieldEncoding, FullscreenPass, PingPongTarget, createPassMaterial, fieldCodec } from './PingPongTarget';
+
+/**
+ * Persistent water surface for palm ripples: the 2D wave equation on a
+ * heightfield, stepped with an explicit leapfrog scheme. Open palms drive it
+ * like a finger tapping the surface; rings then travel, interfere and reflect
+ * off the frame edges long after the hand is gone.
+ *
+ * Image space with y up (the composite shader's mirrorUV). Each texel stores
+ * the current height in r and the previous step's height in g.
+ */
+
+/** One oscillating source this frame. Image space (0-1, y down). */
+export interface WaveSource {
+  x: number;
+  y: number;
+  radius: number;
+  amplitude: number;
+}
+
+// Upper bound baked into the step shader's uniform arrays: one per hand
+export const MAX_WAVE_SOURCES = MAX_HANDS;
+
+// Cells along the short side of the grid
+const GRID_SIZE = 256;
+
+// Explicit steps are only stable while waves move less than ~0.7 cells per step
+const MAX_COURANT = 0.5;
+const MAX_SUBSTEPS = 8;
+
+// Heights a byte-encoded field can hold; palms rarely push past ~2
+export const WAVE_BYTE_RANGE = 4.0;
+
+/** The sources every module that drives the surface wants this frame, capped at MAX_WAVE_SOURCES. */
+export const collectWaveSources = (modules: readonly EffectModule[], hands: HandData): WaveSource[] =>
+  modules.flatMap(module => module.waveSources?.(hands) ?? []).slice(0, MAX_WAVE_SOURCES);
+
+const createStepShader = (encoding: FieldEncoding) => `
+  #define MAX_SOURCES ${MAX_WAVE_SOURCES}
+  ${fieldCodec(encoding, WAVE_BYTE_RANGE)}
+  uniform sampler2D uState;     // r = height, g = previous height
+  uniform vec2 uTexel;
+  uniform float uAspect;
+  uniform float uCourantSq;     // (wave speed * dt / cell size)^2
+  uniform float uDamping;       // per-step multiplier
+  uniform float uDrive;         // source oscillation, -1..1
+  uniform float uDt;
+  uniform int uSourceCount;
+  uniform vec2 uSourcePos[MAX_SOURCES];  // y up
+  uniform float uSourceRadius[MAX_SOURCES];
+  uniform float uSourceAmplitude[MAX_SOURCES];
+  varying vec2 vUv;
+
+  void main() {
+    vec2 state = decodeField(texture2D(uState, vUv)).rg;
+    // Clamp-to-edge sampling mirrors the border cell, so waves reflect off the frame
+    float l = decodeField(texture2D(uState, vUv - vec2(uTexel.x, 0.0))).r;
+    float r = decodeField(texture2D(uState, vUv + vec2(uTexel.x, 0.0))).r;
+    float b = decodeField(texture2D(uState, vUv - vec2(0.0, uTexel.y))).r;
+    float t = decodeField(texture2D(uState, vUv + vec2(0.0, uTexel.y))).r;
+    float laplacian = l + r + b + t - 4.0 * state.r;
+
+    float next = (2.0 * state.r - state.g + uCourantSq * laplacian) * uDamping;
+
+    for (int i = 0; i < MAX_SOURCES; i++) {
+      if (i >= uSourceCount) break;
+      vec2 d = vUv - uSourcePos[i];
+      d.x *= uAspect;
+      float rad = uSourceRadius[i];
+      next += uDrive * uSourceAmplitude[i] * exp(-dot(d, d) / (rad * rad)) * uDt;
+    }
+
+    gl_FragColor = encodeField(vec4(next, state.r, 0.0, 0.0));
+  }
+`;
+
+export class WaveHeightfield {
+  private state: PingPongTarget;
+  private screen = new FullscreenPass();
+  private time = 0;
+  private stepPass: THREE.ShaderMaterial;
+
+  /** Grid size in cells; the composite shader needs it to take gradients and scale them to pixels. */
+  readonly gridWidth: number;
+  readonly gridHeight: number;
+  /** Set when heights are byte-packed: the composite shader must decode with fieldCodec's mapping. */
+  readonly byteRange: number;
+
+  /** `aspect` is the video's width / height; the grid follows it so cells stay square on screen. */
+  constructor(aspect: number, encoding: FieldEncoding = 'float') {
+    const width = Math.round(GRID_SIZE * Math.max(aspect, 1));
+    const height = Math.round(GRID_SIZE / Math.min(aspect, 1));
+    this.gridWidth = width;
+    this.gridHeight = height;
+    this.byteRange = encoding === 'byte' ? WAVE_BYTE_RANGE : 0;
+    this.state = new PingPongTarget(width, height, { encoding, signed: true });
+    this.stepPass = createPassMaterial(createStepShader(encoding), {
+      uState: { value: null },
+      uTexel: { value: new THREE.Vector2(1 / width, 1 / height) },
+      uAspect: { value: aspect },
+      uCourantSq: { value: 0 },
+      uDamping: { value: 1 },
+      uDrive: { value: 0 },
+      uDt: { value: 0 },
+      uSourceCount: { value: 0 },
+      uSourcePos: { value: Array.from({ length: MAX_WAVE_SOURCES }, () => new THREE.Vector2()) },
+      uSourceRadius: { value: new Array(MAX_WAVE_SOURCES).fill(0) },
+      uSourceAmplitude: { value: new Array(MAX_WAVE_SOURCES).fill(0) },
+    });
+  }
+
+  /** Height (r) for the composite shader; sample neighbours for the gradient. */
+  get texture() {
+    return this.state.read.texture;
+  }
+
+  step(renderer: THREE.WebGLRenderer, dt: number, sources: WaveSource[], params: FluidParams) {
+    if (dt <= 0) return;
+    const previousTarget = renderer.getRenderTarget();
+    this.state.prepare(renderer);
+
+    // Wave speed is in image heights per second; one cell is 1 / gridHeight of that
+    const cellsPerSecond = params.waveSpeed * this.gridHeight;
+    const substeps = Math.min(Math.ceil((cellsPerSecond * dt) / MAX_COURANT), MAX_SUBSTEPS);
+    const h = dt / Math.max(substeps, 1);
+    const courant = Math.min(cellsPerSecond * h, MAX_COURANT);
+
+    const uniforms = this.stepPass.uniforms;
+    const positions = uniforms.uSourcePos.value as THREE.Vector2[];
+    const radii = uniforms.uSourceRadius.value as number[];
+    const amplitudes = uniforms.uSourceAmplitude.value as number[];
+    uniforms.uSourceCount.value = sources.length;
+    sources.forEach((source, i) => {
+      positions[i].set(source.x, 1.0 - source.y);
+      radii[i] = source.radius;
+      amplitudes[i] = source.amplitude * params.rippleEffectStrength * 0.5;
+    });
+    uniforms.uCourantSq.value = courant * courant;
+    uniforms.uDamping.value = Math.exp(-params.waveDamping * h);
+    uniforms.uDt.value = h;
+
+    for (let i = 0; i < substeps; i++) {
+      this.time += h;
+      // Palms bob at the old ripple rate, so the surface keeps the same rhythm
+      uniforms.uDrive.value = Math.sin(this.time * params.dynamicSpeed * 4.0);
+      uniforms.uState.value = this.state.read.texture;
+      this.screen.render(renderer, this.stepPass, this.state.write);
+      this.state.swap();
+    }
+
+    renderer.setRenderTarget(previousTarget);
+  }
+
+  /** Flattens the surface (clap). */
+  clear(renderer: THREE.WebGLRenderer) {
+    this.state.clear(renderer);
+  }
+
+  dispose() {
+    this.state.dispose();
+    this.screen.dispose();
+    this.stepPass.dispose();
+  }
+}
@@ -0,0 +1,188 @@
+import { LandmarkerHandSource } from './LandmarkerHandSource';
+import { playVideo } from './HandInputSource';
+import { HandProcessorOptions } from './HandLandmarkProcessor';
+import { CameraSettings, buildVideoConstraints, listCameras, loadCameraSettings } from './cameraSettings';
+
+export interface CameraStatus {
+  state: 'connecting' | 'live' | 'reconnecting';
+  // The device actually in use, which differs from settings.deviceId while falling back
+  deviceId: string | null;
+  label: string;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+// Retry interval while the camera is gone; a devicechange event retries sooner
+const RECONNECT_INTERVAL_MS = 2000;
+
+/**
+ * Live camera via getUserMedia. Reconnects on its own when the track ends
+ * (cable pulled, another app took the camera) and moves back to the chosen
+ * device when it reappears, all on the same video element.
+ */
+export class WebcamHandSource extends LandmarkerHandSource {
+  readonly kind = 'webcam' as const;
+  private settings: CameraSettings;
+  private stream: MediaStream | null = null;
+  private activeVideo: HTMLVideoElement | null = null;
+  private status: CameraStatus = { state: 'connecting', deviceId: null, label: '', width: 0, height: 0, frameRate: 0 };
+  private listeners = new Set<(status: CameraStatus) => void>();
+  private retryTimer = 0;
+  private isReconnecting = false;
+  // Something (usually new settings) asked to reconnect while an attempt was running
+  private reconnectQueued = false;
+
+  constructor(settings: CameraSettings = loadCameraSettings(), processing: Partial<HandProcessorOptions> = {}) {
+    super(processing);
+    this.settings = settings;
+  }
+
+  protected async attachMedia(video: HTMLVideoElement) {
+    // Check for browser support
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      throw new Error("Camera API (getUserMedia) not supported in this browser");
+    }
+
+    this.activeVideo = video;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    await this.openStream(video);
+    // Stopped, or stopped and restarted on a new video, while the camera opened
+    if (this.activeVideo !== video) return;
+    await playVideo(video);
+  }
+
+  protected detachMedia(video: HTMLVideoElement) {
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    clearTimeout(this.retryTimer);
+    this.reconnectQueued = false;
+    this.activeVideo = null;
+    this.releaseStream();
+    video.srcObject = null;
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  subscribe(listener: (status: CameraStatus) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Switches device, resolution or frame rate without restarting detection. */
+  async updateSettings(settings: CameraSettings) {
+    const needsStream = settings.deviceId !== this.settings.deviceId
+      || settings.resolution !== this.settings.resolution
+      || settings.frameRate !== this.settings.frameRate;
+    this.settings = settings;
+    if (!needsStream || !this.activeVideo) return;
+    await this.reconnect();
+  }
+
+  private async openStream(video: HTMLVideoElement) {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(this.settings) });
+    } catch (err) {
+      // Differentiate errors for better UX
+      const errorMsg = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+      if (errorMsg.includes("Permission denied") || errorMsg.includes("NotAllowedError")) {
+        throw new Error("Camera permission denied. Please allow access.");
+      }
+      // The saved camera is unplugged: use whatever is there, switch back when it returns
+      if (this.settings.deviceId && (errorMsg.includes("NotFoundError") || errorMsg.includes("OverconstrainedError"))) {
+        console.warn("Preferred camera unavailable, using the default one:", errorMsg);
+        stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(this.settings, false) });
+      } else {
+        throw err instanceof Error ? err : new Error(errorMsg);
+      }
+    }
+
+    if (this.activeVideo !== video) {
+      // Stopped (or restarted on another video) while waiting for the camera:
+      // this stream is stale and must not replace the live one
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.releaseStream();
+    this.stream = stream;
+    video.srcObject = stream;
+
+    const track = stream.getVideoTracks()[0];
+    track.onended = () => this.reconnect();
+    const actual = track.getSettings();
+    this.setStatus({
+      state: 'live',
+      deviceId: actual.deviceId ?? null,
+      label: track.label,
+      width: actual.width ?? 0,
+      height: actual.height ?? 0,
+      frameRate: actual.frameRate ?? 0
+    });
+  }
+
+  private releaseStream() {
+    if (!this.stream) return;
+    this.stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    this.stream = null;
+  }
+
+  private async reconnect() {
+    const video = this.activeVideo;
+    if (!video) return;
+    if (this.isReconnecting) {
+      // The running attempt built its constraints from the settings it started
+      // with; reopen once it is done so newer settings are not lost
+      this.reconnectQueued = true;
+      return;
+    }
+    this.isReconnecting = true;
+    clearTimeout(this.retryTimer);
+    if (this.status.state !== 'reconnecting') this.setStatus({ ...this.status, state: 'reconnecting' });
+
+    try {
+      await this.openStream(video);
+      if (this.activeVideo === video) await video.play();
+    } catch (err) {
+      // Stays 'reconnecting' until an attempt succeeds or the source stops
+      console.warn("Camera reconnect failed, retrying:", err);
+      if (this.activeVideo === video) {
+        this.retryTimer = window.setTimeout(() => this.reconnect(), RECONNECT_INTERVAL_MS);
+      }
+    } finally {
+      this.isReconnecting = false;
+    }
+
+    if (this.reconnectQueued) {
+      this.reconnectQueued = false;
+      if (this.activeVideo === video) await this.reconnect();
+    }
+  }
+
+  private handleDeviceChange = async () => {
+    const video = this.activeVideo;
+    if (!video) return;
+    const liveTrack = this.stream?.getVideoTracks().find(track => track.readyState === 'live');
+    if (!liveTrack) {
+      this.reconnect();
+      return;
+    }
+    // Running on a fallback camera and the chosen one just came back
+    const wanted = this.settings.deviceId;
+    if (wanted && this.status.deviceId !== wanted) {
+      const cameras = await listCameras();
+      if (this.activeVideo !== video) return;
+      if (cameras.some(camera => camera.deviceId === wanted)) this.reconnect();
+    }
+  };
+
+  private setStatus(status: CameraStatus) {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+}
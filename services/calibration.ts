@@ -0,0 +1,153 @@
+import { RawHandFrame } from './HandInputSource';
+import { HandProcessorOptions, DEFAULT_DEPTH_MAPPING } from './HandLandmarkProcessor';
+import { DEFAULT_GESTURE_THRESHOLDS } from './GestureStateMachine';
+
+/** Per-user measurements that gesture detection and z mapping are derived from. */
+export interface CalibrationProfile {
+  name: string;
+  createdAt: string; // ISO 8601
+  // Thumb-to-index tip distance, image units
+  openPinchDistance: number;
+  closedPinchDistance: number;
+  // Hand size (wrist to middle MCP), image units
+  nearHandSize: number;
+  farHandSize: number;
+}
+
+export type CalibrationStepId = 'open' | 'pinch' | 'near' | 'far';
+
+export interface CalibrationStep {
+  id: CalibrationStepId;
+  title: string;
+  instruction: string;
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { id: 'open', title: 'Relaxed Hand', instruction: 'Hold one hand up, open and relaxed, at a comfortable distance.' },
+  { id: 'pinch', title: 'Pinch', instruction: 'Touch your thumb and index fingertips together and hold.' },
+  { id: 'near', title: 'Near', instruction: 'Open your hand and bring it as close to the camera as feels natural.' },
+  { id: 'far', title: 'Far', instruction: 'Now move your open hand as far back as you would reach while playing.' },
+];
+
+// Built-in PINCH rule distance the scale is relative to (see gestureRules)
+const REFERENCE_PINCH_DISTANCE = 0.05;
+// Pinch threshold sits this far from closed towards open
+const PINCH_ENTER_FRACTION = 0.3;
+const PINCH_EXIT_FRACTION = 0.45;
+
+export interface CalibrationSample {
+  pinchDistance: number;
+  handSize: number;
+}
+
+/**
+ * Measurements from one landmarker detection (the first hand in it), taken
+ * before any smoothing or display-time interpolation.
+ */
+export const measureDetection = (raw: RawHandFrame): CalibrationSample | null => {
+  const lm = raw.landmarks[0];
+  if (!lm) return null;
+  return {
+    pinchDistance: Math.hypot(lm[4].x - lm[8].x, lm[4].y - lm[8].y),
+    handSize: Math.hypot(lm[0].x - lm[9].x, lm[0].y - lm[9].y),
+  };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Median of a step's samples, robust against the odd misdetected frame. */
+export const summarizeSamples = (samples: CalibrationSample[]): CalibrationSample => ({
+  pinchDistance: median(samples.map(s => s.pinchDistance)),
+  handSize: median(samples.map(s => s.handSize)),
+});
+
+export const deriveProfile = (name: string, steps: Record<CalibrationStepId, CalibrationSample>): CalibrationProfile => {
+  const near = Math.max(steps.near.handSize, steps.far.handSize);
+  const far = Math.min(steps.near.handSize, steps.far.handSize);
+  if (near - far < 0.02) {
+    throw new Error("Near and far poses were too similar. Move your hand further between the two steps.");
+  }
+  if (steps.open.pinchDistance <= steps.pinch.pinchDistance) {
+    throw new Error("The pinch was not closer than the open hand. Try the pinch step again.");
+  }
+  return {
+    name,
+    createdAt: new Date().toISOString(),
+    openPinchDistance: steps.open.pinchDistance,
+    closedPinchDistance: steps.pinch.pinchDistance,
+    nearHandSize: near,
+    farHandSize: far,
+  };
+};
+
+/** Processing options for a profile; null means the built-in defaults. */
+export const profileToProcessing = (profile: CalibrationProfile | null): Partial<HandProcessorOptions> => {
+  if (!profile) {
+    return { thresholds: DEFAULT_GESTURE_THRESHOLDS, depth: DEFAULT_DEPTH_MAPPING };
+  }
+  const span = profile.openPinchDistance - profile.closedPinchDistance;
+  const enter = profile.closedPinchDistance + span * PINCH_ENTER_FRACTION;
+  const exit = profile.closedPinchDistance + span * PINCH_EXIT_FRACTION;
+  return {
+    thresholds: {
+      ...DEFAULT_GESTURE_THRESHOLDS,
+      distanceScale: enter / REFERENCE_PINCH_DISTANCE,
+      distanceExitScale: exit / enter,
+    },
+    depth: { far: profile.farHandSize, near: profile.nearHandSize },
+  };
+};
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'suspended-reality.calibration';
+
+interface StoredCalibration {
+  profiles: CalibrationProfile[];
+  active: string | null;
+}
+
+const readStore = (): StoredCalibration => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (err) {
+    console.warn("Ignoring unreadable calibration store:", err);
+  }
+  return { profiles: [], active: null };
+};
+
+const writeStore = (store: StoredCalibration) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+export const loadProfiles = () => readStore().profiles;
+
+export const loadActiveProfile = (): CalibrationProfile | null => {
+  const store = readStore();
+  return store.profiles.find(p => p.name === store.active) ?? null;
+};
+
+/** Saves (replacing any profile with the same name) and makes it active. */
+export const saveProfile = (profile: CalibrationProfile) => {
+  const store = readStore();
+  store.profiles = [...store.profiles.filter(p => p.name !== profile.name), profile];
+  store.active = profile.name;
+  writeStore(store);
+};
+
+export const setActiveProfile = (name: string | null) => {
+  const store = readStore();
+  store.active = name;
+  writeStore(store);
+};
+
+export const deleteProfile = (name: string) => {
+  const store = readStore();
+  store.profiles = store.profiles.filter(p => p.name !== name);
+  if (store.active === name) store.active = null;
+  writeStore(store);
+};
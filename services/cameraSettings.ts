@@ -0,0 +1,60 @@
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number, height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export const CAMERA_FRAME_RATES = [24, 30, 60];
+
+export interface CameraSettings {
+  // null = browser default (the user-facing camera where there is one)
+  deviceId: string | null;
+  resolution: CameraResolution;
+  frameRate: number;
+  // Show the image flipped like a mirror. Off for rear cameras and projector rigs.
+  mirror: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: '720p',
+  frameRate: 30,
+  mirror: true,
+};
+
+const STORAGE_KEY = 'suspended-reality.camera';
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(raw) };
+  } catch (err) {
+    console.warn("Ignoring unreadable camera settings:", err);
+  }
+  return DEFAULT_CAMERA_SETTINGS;
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Connected cameras. Labels are empty until camera permission has been granted. */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export const buildVideoConstraints = (settings: CameraSettings, useDevice = true): MediaTrackConstraints => {
+  const { width, height } = CAMERA_RESOLUTIONS[settings.resolution];
+  return {
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.frameRate },
+    ...(useDevice && settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: 'user' })
+  };
+};
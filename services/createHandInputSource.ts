@@ -0,0 +1,44 @@
+import { DEFAULT_HAND_COUNT, MAX_HANDS } from '../types';
+import { HandInputKind, HandInputSource } from './HandInputSource';
+import { WebcamHandSource } from './WebcamHandSource';
+import { VideoFileHandSource } from './VideoFileHandSource';
+import { SyntheticHandSource, SyntheticScript } from './SyntheticHandSource';
+import { HandProcessorOptions } from './HandLandmarkProcessor';
+import { CameraSettings } from './cameraSettings';
+
+export type HandInputConfig =
+  | { kind: 'webcam'; camera?: CameraSettings; processing?: Partial<HandProcessorOptions> }
+  | { kind: 'video-file'; media: File | string; loop?: boolean; processing?: Partial<HandProcessorOptions> }
+  | { kind: 'synthetic'; script?: SyntheticScript };
+
+/** `handCount` hand slots per frame, and the most hands detection looks for. */
+export const createHandInputSource = (config: HandInputConfig, handCount = DEFAULT_HAND_COUNT): HandInputSource => {
+  switch (config.kind) {
+    case 'webcam':
+      return new WebcamHandSource(config.camera, { ...config.processing, handCount });
+    case 'video-file':
+      return new VideoFileHandSource(config.media, config.loop, { ...config.processing, handCount });
+    case 'synthetic':
+      return new SyntheticHandSource(config.script, handCount);
+  }
+};
+
+/**
+ * Reads the initial source from the URL so demos and CI can skip the camera:
+ * `?input=synthetic`, or `?input=video&src=/clips/demo.mp4`.
+ */
+export const readInputConfigFromUrl = (search = window.location.search): HandInputConfig => {
+  const query = new URLSearchParams(search);
+  const input = query.get('input') as HandInputKind | 'video' | null;
+  const src = query.get('src');
+
+  if (input === 'synthetic') return { kind: 'synthetic' };
+  if ((input === 'video' || input === 'video-file') && src) return { kind: 'video-file', media: src };
+  return { kind: 'webcam' };
+};
+
+/** `?hands=N` (1 to MAX_HANDS) for installations where several people play at once. */
+export const readHandCountFromUrl = (search = window.location.search): number => {
+  const hands = parseInt(new URLSearchParams(search).get('hands') ?? '', 10);
+  return Number.isFinite(hands) ? Math.max(1, Math.min(MAX_HANDS, hands)) : DEFAULT_HAND_COUNT;
+};
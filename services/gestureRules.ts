@@ -0,0 +1,252 @@
+import { FingerName, FingerState, GestureType, Handedness, Landmark3 } from '../types';
+
+export type { FingerName };
+export type FingerPose = 'extended' | 'curled';
+export type PointingDirection = 'up' | 'down' | 'left' | 'right';
+
+export const FINGERS: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Landmark indices: base (direction origin), pip (extension reference), tip
+const FINGER_JOINTS: Record<FingerName, { base: number, pip: number, tip: number }> = {
+  thumb:  { base: 2,  pip: 2,  tip: 4 },
+  index:  { base: 5,  pip: 6,  tip: 8 },
+  middle: { base: 9,  pip: 10, tip: 12 },
+  ring:   { base: 13, pip: 14, tip: 16 },
+  pinky:  { base: 17, pip: 18, tip: 20 },
+};
+
+/**
+ * Declarative gesture definition. A rule matches when every constraint it
+ * lists holds; unlisted fingers are unconstrained. Rules are tried in
+ * descending priority and the first match wins.
+ *
+ * Example (a "rock on" sign):
+ *   { name: 'HORNS', priority: 65, anchor: 'index',
+ *     fingers: { index: 'extended', pinky: 'extended', middle: 'curled', ring: 'curled' } }
+ */
+export interface GestureRule {
+  name: GestureType;
+  priority: number;
+  fingers?: Partial<Record<FingerName, FingerPose>>;
+  /** Fingertip distance bounds in normalized image units. */
+  tipDistances?: { between: [FingerName, FingerName], min?: number, max?: number }[];
+  /** Which side of the hand must face the camera. */
+  facing?: 'back' | 'front';
+  /** Direction a finger (base to tip) must point in the image. */
+  pointing?: Partial<Record<FingerName, PointingDirection>>;
+  /** Where HandPoint x/y is taken from while the gesture is held. Defaults to 'palm'. */
+  anchor?: 'palm' | 'pinch' | FingerName;
+}
+
+/** Per-frame geometry the rules are evaluated against. */
+export interface HandFeatures {
+  // Tip-to-wrist over pip-to-wrist distance: > 1.1 reads as extended, < 1.0 as curled
+  extension: Record<FingerName, number>;
+  tips: Record<FingerName, { x: number, y: number }>;
+  // Unit vectors base->tip in image space (y down)
+  directions: Record<FingerName, { x: number, y: number }>;
+  // Signed orientation, > 0 when the back of the hand faces the camera
+  backFacing: number;
+}
+
+/** Enter values apply when a gesture is not active; the looser exit values keep it active. */
+export interface GestureRuleThresholds {
+  extendedEnter: number;
+  extendedExit: number;
+  curledEnter: number;
+  curledExit: number;
+  distanceScale: number;       // per-user scale for every tip distance (from calibration)
+  distanceExitScale: number;   // multiplies `max` (and divides `min`) for the active gesture
+  facingEnter: number;
+  facingExit: number;
+  pointingEnter: number;       // min cosine between finger and the required direction
+  pointingExit: number;
+}
+
+export const computeHandFeatures = (landmarks: { x: number, y: number }[], handedness: Handedness): HandFeatures => {
+  const wrist = landmarks[0];
+  const extension = {} as HandFeatures['extension'];
+  const tips = {} as HandFeatures['tips'];
+  const directions = {} as HandFeatures['directions'];
+
+  for (const finger of FINGERS) {
+    const { base, pip, tip } = FINGER_JOINTS[finger];
+    const t = landmarks[tip];
+    const p = landmarks[pip];
+    const b = landmarks[base];
+    extension[finger] = Math.hypot(t.x - wrist.x, t.y - wrist.y) / Math.max(Math.hypot(p.x - wrist.x, p.y - wrist.y), 1e-6);
+    tips[finger] = { x: t.x, y: t.y };
+    const len = Math.max(Math.hypot(t.x - b.x, t.y - b.y), 1e-6);
+    directions[finger] = { x: (t.x - b.x) / len, y: (t.y - b.y) / len };
+  }
+
+  // Cross Product of (IndexMCP - Wrist) and (PinkyMCP - Wrist):
+  // Left Hand Back facing: Cross Product < 0; Right Hand: > 0
+  const indexMcp = landmarks[5];
+  const pinkyMcp = landmarks[17];
+  const crossZ = (indexMcp.x - wrist.x) * (pinkyMcp.y - wrist.y) - (indexMcp.y - wrist.y) * (pinkyMcp.x - wrist.x);
+  const backFacing = handedness === 'Left' ? -crossZ : crossZ;
+
+  return { extension, tips, directions, backFacing };
+};
+
+// Wrist followed by the four landmarks of each finger, for joint bend angles
+const FINGER_CHAINS: Record<FingerName, number[]> = {
+  thumb:  [0, 1, 2, 3, 4],
+  index:  [0, 5, 6, 7, 8],
+  middle: [0, 9, 10, 11, 12],
+  ring:   [0, 13, 14, 15, 16],
+  pinky:  [0, 17, 18, 19, 20],
+};
+
+// Sum of the three joint bends that reads as a fully closed finger
+const FULL_CURL_RADIANS = Math.PI * 1.5;
+
+const bendAngle = (a: Landmark3, b: Landmark3, c: Landmark3) => {
+  const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
+  const vx = c.x - b.x, vy = c.y - b.y, vz = c.z - b.z;
+  const len = Math.max(Math.hypot(ux, uy, uz) * Math.hypot(vx, vy, vz), 1e-9);
+  return Math.acos(Math.max(-1, Math.min(1, (ux * vx + uy * vy + uz * vz) / len)));
+};
+
+/**
+ * Extension (the ratio the gesture rules use) and curl per finger. Pass world
+ * landmarks as `points` when available so curl reflects true 3D joint angles.
+ */
+export const computeFingerStates = (features: HandFeatures, points: Landmark3[]): Record<FingerName, FingerState> => {
+  const states = {} as Record<FingerName, FingerState>;
+
+  for (const finger of FINGERS) {
+    const chain = FINGER_CHAINS[finger].map(i => points[i]);
+    let bend = 0;
+    for (let j = 1; j < chain.length - 1; j++) {
+      bend += bendAngle(chain[j - 1], chain[j], chain[j + 1]);
+    }
+    states[finger] = {
+      extension: features.extension[finger],
+      curl: Math.min(1, bend / FULL_CURL_RADIANS)
+    };
+  }
+  return states;
+};
+
+const DIRECTION_VECTORS: Record<PointingDirection, { x: number, y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+/** `relaxed` selects the exit thresholds, used for the currently held gesture. */
+export const matchesRule = (rule: GestureRule, f: HandFeatures, t: GestureRuleThresholds, relaxed: boolean) => {
+  for (const finger of FINGERS) {
+    const pose = rule.fingers?.[finger];
+    if (pose === 'extended' && !(f.extension[finger] > (relaxed ? t.extendedExit : t.extendedEnter))) return false;
+    if (pose === 'curled' && !(f.extension[finger] < (relaxed ? t.curledExit : t.curledEnter))) return false;
+
+    const direction = rule.pointing?.[finger];
+    if (direction) {
+      const d = f.directions[finger];
+      const v = DIRECTION_VECTORS[direction];
+      if (d.x * v.x + d.y * v.y < (relaxed ? t.pointingExit : t.pointingEnter)) return false;
+    }
+  }
+
+  for (const { between: [a, b], min, max } of rule.tipDistances ?? []) {
+    const dist = Math.hypot(f.tips[a].x - f.tips[b].x, f.tips[a].y - f.tips[b].y);
+    const slack = relaxed ? t.distanceExitScale : 1;
+    if (max !== undefined && !(dist < max * t.distanceScale * slack)) return false;
+    if (min !== undefined && !(dist > min * t.distanceScale / slack)) return false;
+  }
+
+  if (rule.facing) {
+    const limit = relaxed ? t.facingExit : t.facingEnter;
+    if (rule.facing === 'back' && !(f.backFacing > limit)) return false;
+    if (rule.facing === 'front' && !(f.backFacing < -limit)) return false;
+  }
+
+  return true;
+};
+
+export const BUILTIN_GESTURE_RULES: GestureRule[] = [
+  {
+    name: 'PINCH', priority: 100, anchor: 'pinch',
+    tipDistances: [{ between: ['thumb', 'index'], max: 0.05 }]
+  },
+  {
+    name: 'THUMBS_UP', priority: 90, anchor: 'thumb',
+    fingers: { thumb: 'extended', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' },
+    pointing: { thumb: 'up' }
+  },
+  {
+    // Cycles material presets
+    name: 'SHAKA', priority: 85, anchor: 'palm',
+    fingers: { thumb: 'extended', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'extended' }
+  },
+  {
+    // Strict Condition: Fingers Open AND Back of Hand Facing Camera
+    name: 'PALM', priority: 80, anchor: 'palm',
+    fingers: { thumb: 'extended', index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended' },
+    facing: 'back'
+  },
+  {
+    name: 'TWO_FINGER', priority: 70, anchor: 'index',
+    fingers: { index: 'extended', middle: 'extended', ring: 'curled', pinky: 'curled' }
+  },
+  {
+    // Index Finger Smear mode
+    name: 'POINT', priority: 60, anchor: 'index',
+    fingers: { index: 'extended', middle: 'curled', ring: 'curled', pinky: 'curled' }
+  },
+  {
+    name: 'FIST', priority: 50, anchor: 'palm',
+    fingers: { index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' }
+  },
+];
+
+/**
+ * Active gesture rules, built-ins included. Register custom rules here to
+ * add gestures without touching the landmark processor; changes apply from
+ * the next detected frame.
+ */
+class GestureRuleRegistry {
+  private rules = new Map<GestureType, GestureRule>();
+  private listeners = new Set<() => void>();
+
+  constructor(initial: GestureRule[]) {
+    initial.forEach(rule => this.rules.set(rule.name, rule));
+  }
+
+  register(rule: GestureRule) {
+    if (rule.name === 'NONE') throw new Error("'NONE' is reserved and cannot be a gesture rule");
+    this.rules.set(rule.name, rule);
+    this.listeners.forEach(listener => listener());
+  }
+
+  unregister(name: GestureType) {
+    if (this.rules.delete(name)) this.listeners.forEach(listener => listener());
+  }
+
+  /** Replaces every rule at once, e.g. to mirror another thread's registry. */
+  replaceAll(rules: GestureRule[]) {
+    this.rules = new Map(rules.map(rule => [rule.name, rule]));
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Called after any rule is added or removed. Returns an unsubscribe function. */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  get(name: GestureType) {
+    return this.rules.get(name);
+  }
+
+  /** All rules, highest priority first. */
+  list() {
+    return [...this.rules.values()].sort((a, b) => b.priority - a.priority);
+  }
+}
+
+export const gestureRegistry = new GestureRuleRegistry(BUILTIN_GESTURE_RULES);
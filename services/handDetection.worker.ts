@@ -0,0 +1,205 @@
+import { FaceLandmarker, FilesetResolver, HandLandmarker, ImageSegmenter } from '@mediapipe/tasks-vision';
+import { DEFAULT_HAND_COUNT, HeadPose } from '../types';
+import { HandLandmarkProcessor } from './HandLandmarkProcessor';
+import { gestureRegistry } from './gestureRules';
+import { estimateHeadPose } from './HeadTracking';
+import { SegmentationMask, downsampleMask } from './PersonSegmentation';
+import { DetectionWorkerRequest, DetectionWorkerResponse } from './handDetectionProtocol';
+import { LandmarkerDelegate } from './mediapipeAssets';
+
+// Runs the HandLandmarker and landmark processing off the render thread,
+// plus the optional FaceLandmarker pass for head parallax and ImageSegmenter
+// pass for the person mask.
+// One worker per LandmarkerHandSource; it is terminated when the source stops.
+
+let landmarker: HandLandmarker | null = null;
+let processor = new HandLandmarkProcessor();
+// Latest requested hand count, so a landmarker still being created picks up changes
+let numHands = DEFAULT_HAND_COUNT;
+
+// Optional passes: created on first enable with the delegate the hands ended up on
+let vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>> | null = null;
+let delegate: LandmarkerDelegate = "GPU";
+let faceModelPath = '';
+let faceEnabled = false;
+let faceLandmarker: FaceLandmarker | null = null;
+let faceLoading: Promise<void> | null = null;
+
+let segmenterModelPath = '';
+let segmentationEnabled = false;
+let segmenter: ImageSegmenter | null = null;
+let segmenterLoading: Promise<void> | null = null;
+
+const post = (message: DetectionWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const init = async (wasmPath: string, modelPath: string) => {
+  // Module workers cannot importScripts, so load the ES module build of the wasm loader
+  const fileset = await FilesetResolver.forVisionTasks(wasmPath, true);
+  vision = fileset;
+
+  const create = (delegate: LandmarkerDelegate) => HandLandmarker.createFromOptions(fileset, {
+    baseOptions: {
+      modelAssetPath: modelPath,
+      delegate
+    },
+    runningMode: "VIDEO",
+    numHands
+  });
+
+  // GPU init fails on some drivers and headless machines; CPU is slower but always there
+  try {
+    landmarker = await create("GPU");
+    delegate = "GPU";
+    post({ type: 'ready', delegate: "GPU" });
+  } catch (err) {
+    console.warn("GPU delegate unavailable, retrying on CPU:", err);
+    landmarker = await create("CPU");
+    delegate = "CPU";
+    post({ type: 'ready', delegate: "CPU", fallbackReason: err instanceof Error ? err.message : String(err) });
+  }
+
+  if (faceEnabled) loadFaceLandmarker();
+  if (segmentationEnabled) loadSegmenter();
+};
+
+const setHandCount = async (count: number) => {
+  numHands = count;
+  try {
+    await landmarker?.setOptions({ numHands: count });
+  } catch (err) {
+    post({ type: 'configureError', message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+const loadFaceLandmarker = () => {
+  if (faceLandmarker || faceLoading || !vision) return;
+  faceLoading = FaceLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: faceModelPath,
+      delegate
+    },
+    runningMode: "VIDEO",
+    numFaces: 1
+  })
+    .then(created => { faceLandmarker = created; })
+    .catch(err => {
+      faceEnabled = false;
+      post({ type: 'faceError', message: err instanceof Error ? err.message : String(err) });
+    })
+    .finally(() => { faceLoading = null; });
+};
+
+const loadSegmenter = () => {
+  if (segmenter || segmenterLoading || !vision) return;
+  segmenterLoading = ImageSegmenter.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: segmenterModelPath,
+      delegate
+    },
+    runningMode: "VIDEO",
+    outputConfidenceMasks: true,
+    outputCategoryMask: false
+  })
+    .then(created => { segmenter = created; })
+    .catch(err => {
+      segmentationEnabled = false;
+      post({ type: 'segmentationError', message: err instanceof Error ? err.message : String(err) });
+    })
+    .finally(() => { segmenterLoading = null; });
+};
+
+// Undefined while the pass is off (or still loading), null when no face is in view.
+// Never throws: a failing face pass is switched off so the hands carry on without it.
+const detectHead = (frame: VideoFrame | ImageBitmap, timestamp: number): HeadPose | null | undefined => {
+  if (!faceEnabled || !faceLandmarker) return undefined;
+  try {
+    const faces = faceLandmarker.detectForVideo(frame, timestamp).faceLandmarks;
+    return faces.length ? estimateHeadPose(faces[0]) : null;
+  } catch (err) {
+    faceEnabled = false;
+    post({ type: 'faceError', message: err instanceof Error ? err.message : String(err) });
+    return undefined;
+  }
+};
+
+// Undefined while the pass is off (or still loading). Like detectHead, a
+// failing segmenter is switched off instead of taking the hand result with it.
+const segmentPerson = (frame: VideoFrame | ImageBitmap, timestamp: number): SegmentationMask | undefined => {
+  if (!segmentationEnabled || !segmenter) return undefined;
+  try {
+    const result = segmenter.segmentForVideo(frame, timestamp);
+    try {
+      const confidence = result.confidenceMasks?.[0];
+      return confidence ? downsampleMask(confidence.getAsFloat32Array(), confidence.width, confidence.height) : undefined;
+    } finally {
+      result.close();
+    }
+  } catch (err) {
+    segmentationEnabled = false;
+    post({ type: 'segmentationError', message: err instanceof Error ? err.message : String(err) });
+    return undefined;
+  }
+};
+
+const detect = (frame: VideoFrame | ImageBitmap, timestamp: number) => {
+  try {
+    if (!landmarker) {
+      post({ type: 'skipped', timestamp });
+      return;
+    }
+    const results = landmarker.detectForVideo(frame, timestamp);
+    const mask = segmentPerson(frame, timestamp);
+    post({
+      type: 'result',
+      data: processor.process(results, timestamp),
+      raw: {
+        landmarks: results.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+        handedness: results.handedness.map(categories => categories[0]?.categoryName ?? 'Unknown')
+      },
+      head: detectHead(frame, timestamp),
+      mask,
+      timestamp
+    }, mask ? [mask.data.buffer] : []);
+  } catch (err) {
+    console.error("Hand detection failed:", err);
+    post({ type: 'skipped', timestamp });
+  } finally {
+    frame.close();
+  }
+};
+
+self.onmessage = (e: MessageEvent<DetectionWorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      processor = new HandLandmarkProcessor(message.processing);
+      gestureRegistry.replaceAll(message.rules);
+      faceModelPath = message.faceModelPath;
+      faceEnabled = message.face;
+      segmenterModelPath = message.segmenterModelPath;
+      segmentationEnabled = message.segmentation;
+      numHands = message.processing.handCount ?? DEFAULT_HAND_COUNT;
+      init(message.wasmPath, message.modelPath).catch(err => {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+      });
+      break;
+    case 'frame':
+      detect(message.frame, message.timestamp);
+      break;
+    case 'configure':
+      processor.configure(message.processing);
+      if (message.processing.handCount !== undefined) setHandCount(message.processing.handCount);
+      break;
+    case 'rules':
+      gestureRegistry.replaceAll(message.rules);
+      break;
+    case 'face':
+      faceEnabled = message.enabled;
+      if (faceEnabled) loadFaceLandmarker();
+      break;
+    case 'segmentation':
+      segmentationEnabled = message.enabled;
+      if (segmentationEnabled) loadSegmenter();
+      break;
+  }
+};
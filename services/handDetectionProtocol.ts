@@ -0,0 +1,38 @@
+import { HandData, HeadPose } from '../types';
+import { RawHandFrame } from './HandInputSource';
+import { HandProcessorOptions } from './HandLandmarkProcessor';
+import { GestureRule } from './gestureRules';
+import { LandmarkerDelegate } from './mediapipeAssets';
+import { SegmentationMask } from './PersonSegmentation';
+
+// Messages between LandmarkerHandSource and handDetection.worker.ts.
+// Timestamps are main-thread performance.now() values taken when the frame
+// was captured; the worker never reads its own clock.
+
+export type DetectionWorkerRequest =
+  | {
+      type: 'init', wasmPath: string, modelPath: string,
+      faceModelPath: string, face: boolean,
+      segmenterModelPath: string, segmentation: boolean,
+      processing: Partial<HandProcessorOptions>, rules: GestureRule[]
+    }
+  | { type: 'frame', frame: VideoFrame | ImageBitmap, timestamp: number }
+  | { type: 'configure', processing: Partial<HandProcessorOptions> }
+  | { type: 'rules', rules: GestureRule[] }
+  // Turns the head-parallax face pass on or off; the model loads on first use
+  | { type: 'face', enabled: boolean }
+  // Same for the person segmentation pass
+  | { type: 'segmentation', enabled: boolean };
+
+export type DetectionWorkerResponse =
+  | { type: 'ready', delegate: LandmarkerDelegate, fallbackReason?: string }
+  // `head` / `mask` are omitted while their pass is off; `head` is null when no face was found
+  | { type: 'result', data: HandData, raw: RawHandFrame, head?: HeadPose | null, mask?: SegmentationMask, timestamp: number }
+  // A frame was dropped (landmarker not ready or detection threw)
+  | { type: 'skipped', timestamp: number }
+  | { type: 'error', message: string }
+  // The face pass could not start; hand detection carries on without it
+  | { type: 'faceError', message: string }
+  | { type: 'segmentationError', message: string }
+  // A hand count change was rejected; detection keeps the previous count
+  | { type: 'configureError', message: string };
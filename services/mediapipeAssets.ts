@@ -0,0 +1,64 @@
+/** The hand landmarker model we ship. Bump together with scripts/sync-mediapipe-assets.mjs. */
+export const HAND_MODEL = {
+  name: 'hand_landmarker',
+  variant: 'float16',
+  version: 1,
+  file: 'hand_landmarker.task',
+};
+
+/** Face landmarker for the optional head-parallax pass; only loaded when that is on. */
+export const FACE_MODEL = {
+  name: 'face_landmarker',
+  variant: 'float16',
+  version: 1,
+  file: 'face_landmarker.task',
+};
+
+/** Selfie segmenter for the optional person mask; only loaded when an effect target needs it. */
+export const SEGMENTER_MODEL = {
+  name: 'selfie_segmenter',
+  variant: 'float16',
+  version: 1,
+  file: 'selfie_segmenter.tflite',
+};
+
+// Injected by vite.config.ts from the installed @mediapipe/tasks-vision package
+export const MEDIAPIPE_RUNTIME_VERSION = process.env.MEDIAPIPE_VERSION || 'unknown';
+
+export interface MediapipeAssetPaths {
+  base: string;
+  wasm: string;
+  model: string;
+  faceModel: string;
+  segmenterModel: string;
+}
+
+/**
+ * Where the wasm fileset and model are served from. Defaults to the copies
+ * synced into public/mediapipe/; override with `?mediapipeBase=<url>` or the
+ * MEDIAPIPE_ASSET_BASE build variable. The base must contain `wasm/` and
+ * `models/` with every model file.
+ */
+export const resolveMediapipeAssets = (search = window.location.search): MediapipeAssetPaths => {
+  const override = new URLSearchParams(search).get('mediapipeBase') || process.env.MEDIAPIPE_ASSET_BASE;
+  const base = new URL(override || 'mediapipe/', document.baseURI).href.replace(/\/?$/, '/');
+  return {
+    base,
+    wasm: `${base}wasm`,
+    model: `${base}models/${HAND_MODEL.file}`,
+    faceModel: `${base}models/${FACE_MODEL.file}`,
+    segmenterModel: `${base}models/${SEGMENTER_MODEL.file}`,
+  };
+};
+
+export type LandmarkerDelegate = 'GPU' | 'CPU';
+
+/** What the running landmarker actually ended up using. */
+export interface LandmarkerInfo {
+  delegate: LandmarkerDelegate;
+  model: string;
+  runtimeVersion: string;
+  assetBase: string;
+  // Why GPU was skipped, when we fell back to CPU
+  fallbackReason?: string;
+}
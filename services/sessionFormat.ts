@@ -0,0 +1,132 @@
+import { HandData, HandPoint } from '../types';
+import { HandInputKind, RawHandFrame } from './HandInputSource';
+
+/**
+ * Recorded hand session, version 2.
+ *
+ * JSON form: a single HandSession object.
+ * NDJSON form: line 1 is the header (a HandSession without `frames`), every
+ * following line is one HandSessionFrame. NDJSON can be appended to while
+ * recording and streamed line by line.
+ *
+ * Frame times are milliseconds since the first captured frame and are
+ * non-decreasing. `hands` is the HandData exactly as FluidScene and
+ * AudioManager consumed it, minus world landmarks unless the recording asked
+ * for raw data; `raw` is the landmarker output it was derived from, present
+ * only in that case.
+ */
+export const SESSION_FORMAT = 'suspended-reality/hand-session';
+export const SESSION_VERSION = 2;
+
+// Version 1 stored index tip velocity as per-detection-frame deltas x50;
+// version 2 stores units per second. v1 files are converted assuming 30 fps.
+const V1_VELOCITY_TO_PER_SECOND = 30 / 50;
+
+export interface HandSessionFrame {
+  t: number;
+  hands: HandData;
+  raw?: RawHandFrame;
+}
+
+export interface HandSessionHeader {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  createdAt: string; // ISO 8601
+  source: HandInputKind;
+}
+
+export interface HandSession extends HandSessionHeader {
+  frames: HandSessionFrame[];
+}
+
+export const serializeSession = (session: HandSession) => JSON.stringify(session);
+
+export const serializeSessionNdjson = (session: HandSession) => {
+  const { frames, ...header } = session;
+  return [JSON.stringify(header), ...frames.map(frame => JSON.stringify(frame))].join('\n') + '\n';
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHeader = (value: unknown): value is HandSessionHeader =>
+  isRecord(value) && value.format === SESSION_FORMAT && typeof value.version === 'number';
+
+const assertHeader = (value: unknown): HandSessionHeader => {
+  if (!isRecord(value) || value.format !== SESSION_FORMAT) {
+    throw new Error("Not a hand session file");
+  }
+  if (!isHeader(value) || value.version > SESSION_VERSION) {
+    throw new Error(`Unsupported session version ${value.version} (this build reads up to ${SESSION_VERSION})`);
+  }
+  return value;
+};
+
+const upgradeV1Frame = (frame: HandSessionFrame) => {
+  frame.hands.forEach(hand => {
+    hand.indexTip.vx *= V1_VELOCITY_TO_PER_SECOND;
+    hand.indexTip.vy *= V1_VELOCITY_TO_PER_SECOND;
+  });
+  return frame;
+};
+
+// Only the fields playback cannot do without; identity is filled in below for old files
+const isRecordedHand = (value: unknown): value is HandPoint =>
+  isRecord(value) && typeof value.gesture === 'string' && isRecord(value.indexTip);
+
+const isFrame = (value: unknown): value is HandSessionFrame =>
+  isRecord(value) && typeof value.t === 'number' && Array.isArray(value.hands) && value.hands.every(isRecordedHand);
+
+const assertFrame = (value: unknown, index: number): HandSessionFrame => {
+  if (!isFrame(value)) {
+    throw new Error(`Malformed session frame at index ${index}`);
+  }
+  // Recordings made before hands carried an identity
+  value.hands.forEach(hand => {
+    hand.id ??= null;
+    hand.handedness ??= null;
+  });
+  return value;
+};
+
+const tryParseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/** Parses either form; throws a descriptive Error on anything it cannot read. */
+export const parseSession = (text: string): HandSession => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Session file is empty");
+
+  let session: HandSession;
+  const whole = tryParseJson(trimmed);
+
+  if (whole !== undefined) {
+    // A header-only NDJSON file also parses as a single JSON value
+    const frames: unknown[] = isRecord(whole) && Array.isArray(whole.frames) ? whole.frames : [];
+    session = { ...assertHeader(whole), frames: frames.map(assertFrame) };
+  } else {
+    const lines = trimmed.split('\n').filter(line => line.trim());
+    const header = tryParseJson(lines[0]);
+    session = {
+      ...assertHeader(header),
+      frames: lines.slice(1).map((line, i) => {
+        const frame = tryParseJson(line);
+        if (frame === undefined) throw new Error(`Invalid JSON on session line ${i + 2}`);
+        return assertFrame(frame, i);
+      })
+    };
+  }
+
+  if (session.version < 2) {
+    session.frames.forEach(upgradeV1Frame);
+    session.version = SESSION_VERSION;
+  }
+
+  session.frames.sort((a, b) => a.t - b.t);
+  return session;
+};
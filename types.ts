@@ -7,11 +7,14 @@ export interface FluidParams {
   waveHeight: number;
   rippleEffectStrength: number;
   dynamicSpeed: number;
+  waveSpeed: number;        // how fast ripples travel, image heights per second
+  waveDamping: number;      // fraction of ripple energy lost per second
 
   // Stretch/Pinch Params
   grabRadius: number;       
   stretchStiffness: number; 
   reboundElasticity: number;
+  reboundStiffness: number; // spring pulling a released stretch home; low + inelastic = slow ooze
   blendSoftness: number;    
 
   // Smear (Index Finger) Params
@@ -19,11 +22,60 @@ export interface FluidParams {
   smearDecayTime: number;   // How fast it fades (seconds)
   smearRadius: number;      // Brush size
   colorBleeding: number;    // How much color drags
+
+  // Head Parallax Params
+  parallaxStrength: number; // 0 = flat pane, 1 = strong depth when head tracking is on
+
+  // Stable-Fluids Params ('fluid' surface mode)
+  fluidSplatForce: number;          // how much of a hand's velocity it hands to the fluid, per second
+  fluidVelocityDissipation: number; // fraction of the flow lost per second
+  fluidDyeDissipation: number;      // fraction of the dye lost per second
+  fluidPressureIterations: number;  // Jacobi iterations per step; more = less compressible
+
+  // Membrane Params ('membrane' surface mode; stiffness and damping come from the stretch params)
+  membraneIterations: number;       // constraint passes per substep; more = less stretchy overall
+  membraneTearStrain: number;       // links stretched past (1 + this) x their rest length tear; 0 = never
+}
+
+/**
+ * How hands deform the glass.
+ * - ripple: analytic ripples around palms and spring stretches on pinch
+ * - fluid: a GPU stable-fluids simulation stirred by hand motion
+ * - membrane: a GPU mass-spring sheet that pinches grab, fold and tear
+ */
+export type SurfaceMode = 'ripple' | 'fluid' | 'membrane';
+
+export type BuiltInGesture = 'NONE' | 'PALM' | 'PINCH' | 'FIST' | 'POINT' | 'TWO_FINGER' | 'THUMBS_UP' | 'SHAKA';
+
+// Built-ins plus any name registered through gestureRegistry (services/gestureRules.ts)
+export type GestureType = BuiltInGesture | (string & {});
+
+export type Handedness = 'Left' | 'Right';
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+export interface Landmark3 {
+  x: number;
+  y: number;
+  z: number;
 }
 
-export type GestureType = 'NONE' | 'PALM' | 'PINCH';
+/** Viewer's head from the face landmarker: image space (0-1, y down), z 0 = far, 1 = near. */
+export interface HeadPose {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface FingerState {
+  extension: number; // tip-to-wrist / pip-to-wrist; > 1.1 reads as extended (see gestureRules)
+  curl: number;      // 0 = straight, 1 = fully curled, from joint bend angles
+}
 
 export interface HandPoint {
+  // Persistent per physical hand while it stays tracked; null for an empty slot
+  id: number | null;
+  handedness: Handedness | null;
   gesture: GestureType;
   x: number; // 0-1 (Screen UV)
   y: number; // 0-1 (Screen UV)
@@ -35,9 +87,32 @@ export interface HandPoint {
     vx: number; // Velocity X
     vy: number; // Velocity Y
   };
+
+  // Full pose, present while the hand is detected by a landmarker source
+  landmarks?: Landmark3[];        // 21 MediaPipe landmarks, normalized image coords (unsmoothed)
+  worldLandmarks?: Landmark3[];   // same 21 points in metres, origin at the hand's centre
+  handednessScore?: number;       // landmarker confidence in `handedness`, 0-1
+  fingers?: Record<FingerName, FingerState>;
 }
 
-export type HandData = [HandPoint, HandPoint];
+/** One entry per hand slot; the slot count is fixed for the lifetime of a source. */
+export type HandData = HandPoint[];
+
+// Upper bound baked into the scene's shader uniform arrays and physics pool
+export const MAX_HANDS = 4;
+export const DEFAULT_HAND_COUNT = 2;
+
+// Resting state for a hand slot with no tracked hand
+export const createIdleHand = (): HandPoint => ({
+  id: null,
+  handedness: null,
+  gesture: 'NONE',
+  x: 0.5, y: 0.5, z: 0,
+  indexTip: { x: 0.5, y: 0.5, vx: 0, vy: 0 }
+});
+
+export const createIdleHandData = (count = DEFAULT_HAND_COUNT): HandData =>
+  Array.from({ length: count }, createIdleHand);
 
 export const DEFAULT_PARAMS: FluidParams = {
   // Existing
@@ -47,11 +122,14 @@ export const DEFAULT_PARAMS: FluidParams = {
   waveHeight: 0.5,
   rippleEffectStrength: 2.0,
   dynamicSpeed: 1.5,
+  waveSpeed: 0.35,
+  waveDamping: 0.6,
 
   // Physics Params
   grabRadius: 0.35,
   stretchStiffness: 0.6,
   reboundElasticity: 0.9,
+  reboundStiffness: 10.0,
   blendSoftness: 0.4,
 
   // New Smear Params
@@ -59,4 +137,17 @@ export const DEFAULT_PARAMS: FluidParams = {
   smearDecayTime: 0.05, // Decay rate per frame-ish (derived from time)
   smearRadius: 0.15,
   colorBleeding: 0.6,
+
+  // Head parallax (only while the face pass is enabled)
+  parallaxStrength: 0.5,
+
+  // Stable fluids
+  fluidSplatForce: 6.0,
+  fluidVelocityDissipation: 0.6,
+  fluidDyeDissipation: 0.8,
+  fluidPressureIterations: 20,
+
+  // Membrane
+  membraneIterations: 8,
+  membraneTearStrain: 1.5,
 };
@@ -1,18 +1,28 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const mediapipePackage = JSON.parse(
+      fs.readFileSync(path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/package.json'), 'utf-8')
+    );
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
       plugins: [react()],
+      worker: {
+        // Hand detection runs in a module worker (services/handDetection.worker.ts)
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_VERSION': JSON.stringify(mediapipePackage.version),
+        'process.env.MEDIAPIPE_ASSET_BASE': JSON.stringify(env.MEDIAPIPE_ASSET_BASE ?? '')
       },
       resolve: {
         alias: {